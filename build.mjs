@@ -4,7 +4,7 @@ import { nodeExternalsPlugin } from "esbuild-node-externals";
 const isWatch = process.env.WATCH === "true";
 
 await esbuild.build({
-    entryPoints: ["src/index.ts"],
+    entryPoints: ["src/index.ts", "src/cli.ts"],
     outbase: "src",
     outdir: "dist",
     bundle: true,
@@ -0,0 +1,116 @@
+import fs from "fs";
+import nativePath from "path";
+import picomatch from "picomatch";
+import type { OnStartResult, PartialMessage } from "esbuild";
+
+import type { PluginData } from "./pluginData";
+import { normalize } from "./onResolve";
+import {
+    copyFileIfChanged,
+    getFilesRecursively,
+    isWorldData,
+    removeCopiedFile,
+} from "./files";
+
+const { posix: path } = nativePath;
+
+/**
+ * Mirrors every file matching the `assets` globs into outdir with the same structure relative to the project root. A file is only copied when its modification time has changed and its hash differs from what's already in outdir. Files copied by an earlier build that no longer match, for example because they were deleted, are removed from outdir. A world's data is never copied.
+ */
+export async function copyAssets(
+    pluginData: PluginData
+): Promise<OnStartResult | undefined> {
+    const { pluginName, assets, log } = pluginData;
+    if (assets.length === 0) {
+        return undefined;
+    }
+
+    const errors: PartialMessage[] = [];
+    const watchDirs: string[] = [];
+    const matched = new Set<string>();
+    const outdir = normalize(pluginData.outdir);
+
+    for (const glob of assets) {
+        const pattern = path.join(pluginData.projectRoot, normalize(glob));
+        const { base } = picomatch.scan(pattern);
+
+        if (path.relative(pluginData.projectRoot, base).startsWith("..")) {
+            errors.push({
+                pluginName,
+                text: `The asset glob ${JSON.stringify(
+                    glob
+                )} must be within the project root ${JSON.stringify(
+                    pluginData.projectRoot
+                )}.`,
+            });
+
+            continue;
+        }
+
+        const baseExists = await fs.promises.stat(base).then(
+            (stats) => stats.isDirectory(),
+            () => false
+        );
+        if (!baseExists) {
+            // A base directory that doesn't exist yet is watched through its parent so that creating it rebuilds.
+            watchDirs.push(path.dirname(base));
+
+            continue;
+        }
+
+        const isMatch = picomatch(pattern);
+        const files = await getFilesRecursively(
+            base,
+            watchDirs,
+            (dirPath) => dirPath === outdir
+        );
+
+        for (const file of files) {
+            const asset = path.relative(pluginData.projectRoot, file);
+            if (
+                isMatch(file) &&
+                !(pluginData.packageType === "world" && isWorldData(asset))
+            ) {
+                matched.add(asset);
+            }
+        }
+    }
+
+    if (errors.length !== 0) {
+        return { errors };
+    }
+
+    const { copiedAssets } = pluginData;
+    const copied = [];
+    for (const asset of matched) {
+        if (
+            await copyFileIfChanged(
+                copiedAssets,
+                asset,
+                pluginData.projectRoot,
+                pluginData.outdir
+            )
+        ) {
+            copied.push(asset);
+        }
+    }
+
+    const removed = Object.keys(copiedAssets).filter(
+        (asset) => !matched.has(asset)
+    );
+    for (const asset of removed) {
+        await removeCopiedFile(pluginData.outdir, asset);
+        delete copiedAssets[asset];
+    }
+
+    log("Copied assets:", copied, "Removed assets:", removed);
+
+    pluginData.assetsWatch = {
+        watchFiles: [...matched].map((asset) =>
+            path.join(pluginData.projectRoot, asset)
+        ),
+        watchDirs: [...new Set(watchDirs)],
+    };
+
+    return undefined;
+}
@@ -0,0 +1,55 @@
+import type {
+    BuildResult,
+    Message,
+    PartialMessage,
+    PluginBuild,
+} from "esbuild";
+
+/**
+ * onEnd callbacks can't return messages so warnings found once the build is done are added to the result and logged here instead.
+ */
+export async function logWarnings(
+    build: PluginBuild,
+    result: BuildResult,
+    warnings: PartialMessage[]
+): Promise<void> {
+    if (warnings.length === 0) {
+        return;
+    }
+
+    const { logLevel = "warning", color } = build.initialOptions;
+
+    // The messages are completed the same way ESBuild would so that they match those returned by ESBuild.
+    const messages: Message[] = warnings.map((warning) => ({
+        pluginName: warning.pluginName ?? "",
+        text: warning.text ?? "",
+        location:
+            warning.location === null || typeof warning.location === "undefined"
+                ? null
+                : {
+                      file: "",
+                      namespace: "file",
+                      line: 1,
+                      column: 0,
+                      length: 0,
+                      lineText: "",
+                      suggestion: "",
+                      ...warning.location,
+                  },
+        notes: [],
+        detail: warning.detail,
+    }));
+
+    result.warnings.push(...messages);
+
+    if (!["warning", "info", "debug", "verbose"].includes(logLevel)) {
+        return;
+    }
+
+    const formatted = await build.esbuild.formatMessages(messages, {
+        kind: "warning",
+        color: color ?? process.stderr.isTTY,
+    });
+
+    process.stderr.write(formatted.join(""));
+}
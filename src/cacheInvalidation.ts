@@ -0,0 +1,111 @@
+import fs from "fs";
+import type { OnResolveResult } from "esbuild";
+
+import type { PluginData } from "./pluginData";
+
+/** The modification time of a file or directory or "missing" if it doesn't exist. A directory's modification time changes when entries are added to or removed from it. */
+export type Fingerprint = number | "missing";
+
+export type Fingerprints = Record<string, Fingerprint>;
+
+export type CachedResolve = {
+    result: OnResolveResult;
+
+    /** The files and directories the result was computed from along with what they looked like at that time. */
+    dependencies: Fingerprints;
+};
+
+async function getFingerprint(p: string): Promise<Fingerprint> {
+    try {
+        const stats = await fs.promises.stat(p);
+
+        return stats.mtimeMs;
+    } catch {
+        return "missing";
+    }
+}
+
+export async function getFingerprints(paths: string[]): Promise<Fingerprints> {
+    const uniquePaths = [...new Set(paths)];
+    const fingerprints = await Promise.all(uniquePaths.map(getFingerprint));
+
+    return Object.fromEntries(
+        uniquePaths.map((p, i) => [p, fingerprints[i] as Fingerprint])
+    );
+}
+
+/**
+ * @param fingerprints - The fingerprints taken earlier.
+ * @param current - The fingerprints as they are now, must contain every path in `fingerprints`.
+ */
+export function hasChanged(
+    fingerprints: Fingerprints,
+    current: Fingerprints
+): boolean {
+    return Object.entries(fingerprints).some(
+        ([p, fingerprint]) => current[p] !== fingerprint
+    );
+}
+
+/**
+ * Every resolve result lists the files and directories it depends on through `watchFiles` and `watchDirs`, the same way ESBuild knows what to watch.
+ */
+export async function getResolveDependencies(
+    result: OnResolveResult
+): Promise<Fingerprints> {
+    return await getFingerprints([
+        ...(result.watchFiles ?? []),
+        ...(result.watchDirs ?? []),
+    ]);
+}
+
+/**
+ * Evicts every cached resolution whose dependencies have changed since it was cached. Meant to be run at the start of every build so that rebuilds in watch or incremental mode don't use stale results while the rest of the cache stays warm.
+ */
+export async function invalidateResolveCache(
+    pluginData: PluginData
+): Promise<void> {
+    const { log, onResolveCache, resolver, foundryTargets } = pluginData;
+
+    const resolvers = new Set([
+        resolver,
+        ...foundryTargets.map((target) => target.resolver),
+    ]);
+    for (const targetResolver of resolvers) {
+        if (await targetResolver.invalidate()) {
+            log("Foundry's root folders have changed, reindexing them.");
+        }
+    }
+
+    const cachedResolves = Object.values(onResolveCache).flatMap(
+        (importCache) => Object.values(importCache)
+    );
+    const current = await getFingerprints(
+        cachedResolves.flatMap((cachedResolve) =>
+            Object.keys(cachedResolve?.dependencies ?? {})
+        )
+    );
+
+    let evicted = 0;
+    for (const [importer, importCache] of Object.entries(onResolveCache)) {
+        for (const [importPath, cachedResolve] of Object.entries(importCache)) {
+            if (
+                typeof cachedResolve === "undefined" ||
+                !hasChanged(cachedResolve.dependencies, current)
+            ) {
+                continue;
+            }
+
+            log(
+                `Evicting cached resolution of ${JSON.stringify(
+                    importPath
+                )} from ${JSON.stringify(importer)}.`
+            );
+
+            delete importCache[importPath];
+            evicted += 1;
+        }
+    }
+
+    log(`Evicted ${evicted} of ${cachedResolves.length} cached resolutions.`);
+}
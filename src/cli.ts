@@ -0,0 +1,231 @@
+#!/usr/bin/env node
+import fs from "fs";
+import type { PartialMessage } from "esbuild";
+import { unpackPacks, type UnpackOptions } from "./unpackPacks";
+import { packageRelease, type ReleaseOptions } from "./release";
+import {
+    createFoundryIndex,
+    getIndexedFiles,
+    stringifyFoundryIndex,
+} from "./foundryIndex";
+import { getFoundryAppPath, getFoundryDataPath } from "./foundryConfig";
+import { pluginName, type PackageType } from "./pluginData";
+
+const usage = `Usage: esbuild-foundry-plugin <command> [options]
+
+Commands:
+    unpack    Unpacks every .db pack in the manifest into a directory of documents.
+    release   Zips a build for release along with a copy of its manifest.
+    index     Writes an index of every file a Foundry install serves, for checking imports without the install.
+
+Options for unpack:
+    --type <type>             Required, the type of the Foundry package, module, system or world.
+    --root <path>             The directory containing the manifest, defaults to the working directory.
+    --source-dir <path>       The directory packs are unpacked into, required for worlds.
+    --format <json|yaml>      The format documents are written in, defaults to json.
+    --strip-stats             Removes every "_stats" property.
+    --strip-sort              Removes every "sort" property.
+
+Options for release:
+    --type <type>             Required, the type of the Foundry package, module, system or world.
+    --outdir <path>           The build output containing the manifest, defaults to dist.
+    --release-dir <path>      Where the zip and manifest are written, defaults to release.
+    --version <version>       The version to stamp into the manifest.
+    --version-from-package    Stamps the version of package.json into the manifest.
+    --download-url <url>      The download URL, {id}, {version} and {packageType} are replaced.
+    --manifest-url <url>      The manifest URL with the same replacements.
+
+Options for index:
+    --app-path <path>         The resources/app folder of the install, defaults to FOUNDRY_VTT_RESOURCES_PATH.
+    --data-path <path>        The user data folder of the install, defaults to FOUNDRY_VTT_DATA_PATH or the platform default.
+    --output <path>           Where the index is written, defaults to foundry-index.json.`;
+
+type Args = {
+    command: string | undefined;
+    options: Record<string, string | true>;
+};
+
+/**
+ * Parses arguments like `command --flag --option value`.
+ */
+function parseArgs(argv: string[]): Args {
+    const [command, ...rest] = argv;
+    const options: Args["options"] = {};
+
+    for (let i = 0; i < rest.length; i++) {
+        const arg = rest[i] as string;
+        if (!arg.startsWith("--")) {
+            throw new Error(`Unexpected argument ${JSON.stringify(arg)}.`);
+        }
+
+        const next = rest[i + 1];
+        if (typeof next === "undefined" || next.startsWith("--")) {
+            options[arg.slice(2)] = true;
+        } else {
+            options[arg.slice(2)] = next;
+            i += 1;
+        }
+    }
+
+    return { command, options };
+}
+
+function getString(options: Args["options"], name: string): string | undefined {
+    const value = options[name];
+    if (value === true) {
+        throw new Error(`The option --${name} requires a value.`);
+    }
+
+    return value;
+}
+
+function getPackageType(options: Args["options"]): PackageType {
+    const packageType = getString(options, "type");
+    if (
+        packageType !== "module" &&
+        packageType !== "system" &&
+        packageType !== "world"
+    ) {
+        throw new Error(
+            `The option --type must be "module", "system" or "world".`
+        );
+    }
+
+    return packageType;
+}
+
+async function unpack(options: Args["options"]): Promise<void> {
+    const packageType = getPackageType(options);
+
+    const format = getString(options, "format") ?? "json";
+    if (format !== "json" && format !== "yaml") {
+        throw new Error(`The option --format must be "json" or "yaml".`);
+    }
+
+    const unpackOptions: UnpackOptions = {
+        packageType,
+        format,
+        stripStats: options["strip-stats"] === true,
+        stripSort: options["strip-sort"] === true,
+    };
+
+    const projectRoot = getString(options, "root");
+    if (typeof projectRoot !== "undefined") {
+        unpackOptions.projectRoot = projectRoot;
+    }
+
+    const sourceDir = getString(options, "source-dir");
+    if (typeof sourceDir !== "undefined") {
+        unpackOptions.sourceDir = sourceDir;
+    }
+
+    for (const { packPath, sourcePath, files } of await unpackPacks(
+        unpackOptions
+    )) {
+        // eslint-disable-next-line no-console
+        console.log(
+            `Unpacked ${files.length} documents from ${JSON.stringify(
+                packPath
+            )} into ${JSON.stringify(sourcePath)}.`
+        );
+    }
+}
+
+async function release(options: Args["options"]): Promise<void> {
+    const releaseOptions: ReleaseOptions = {
+        packageType: getPackageType(options),
+        versionFromPackageJSON: options["version-from-package"] === true,
+    };
+
+    const stringOptions = [
+        ["outdir", "outdir"],
+        ["release-dir", "releaseDir"],
+        ["version", "version"],
+        ["download-url", "downloadURL"],
+        ["manifest-url", "manifestURL"],
+    ] as const;
+    for (const [name, key] of stringOptions) {
+        const value = getString(options, name);
+        if (typeof value !== "undefined") {
+            releaseOptions[key] = value;
+        }
+    }
+
+    const { version, zipPath, manifestPath } = await packageRelease(
+        releaseOptions
+    );
+
+    // eslint-disable-next-line no-console
+    console.log(
+        `Released version ${JSON.stringify(version)} to ${JSON.stringify(
+            zipPath
+        )} and ${JSON.stringify(manifestPath)}.`
+    );
+}
+
+async function index(options: Args["options"]): Promise<void> {
+    const noLog = () => {};
+    const foundryPaths = {
+        appPath: getFoundryAppPath(getString(options, "app-path"), noLog),
+        dataPath: getFoundryDataPath(getString(options, "data-path"), noLog),
+    };
+
+    const output = getString(options, "output") ?? "foundry-index.json";
+
+    const warnings: PartialMessage[] = [];
+    const foundryIndex = await createFoundryIndex(foundryPaths, warnings);
+    for (const warning of warnings) {
+        // eslint-disable-next-line no-console
+        console.warn(
+            `[${pluginName}] ${warning.text ?? ""}\n${warning.detail ?? ""}`
+        );
+    }
+    await fs.promises.writeFile(
+        output,
+        stringifyFoundryIndex(foundryIndex),
+        "utf-8"
+    );
+
+    const fileCount =
+        getIndexedFiles(foundryIndex.app).length +
+        getIndexedFiles(foundryIndex.data).length;
+    const version =
+        typeof foundryIndex.version === "undefined"
+            ? "an unknown version"
+            : `v${foundryIndex.version}`;
+
+    // eslint-disable-next-line no-console
+    console.log(
+        `Indexed ${fileCount} files of Foundry ${version} into ${JSON.stringify(
+            output
+        )}.`
+    );
+}
+
+async function main(argv: string[]): Promise<void> {
+    const { command, options } = parseArgs(argv);
+
+    switch (command) {
+        case "unpack":
+            await unpack(options);
+            break;
+        case "release":
+            await release(options);
+            break;
+        case "index":
+            await index(options);
+            break;
+        default:
+            // eslint-disable-next-line no-console
+            console.log(usage);
+            process.exitCode = typeof command === "undefined" ? 0 : 1;
+    }
+}
+
+main(process.argv.slice(2)).catch((e) => {
+    // eslint-disable-next-line no-console
+    console.error(
+        `[${pluginName}] ${e instanceof Error ? e.message : String(e)}`
+    );
+    process.exitCode = 1;
+});
@@ -0,0 +1,128 @@
+import fs from "fs";
+import nativePath from "path";
+import type { BuildResult } from "esbuild";
+
+import type { PluginData } from "./pluginData";
+import { normalize } from "./onResolve";
+
+const { posix: path } = nativePath;
+
+// Stands in for the Foundry path of a `url()` or `@import` until the location of the output CSS is known.
+const cssURLPrefix = "foundry-url:";
+
+// The Foundry path is encoded within the placeholder so it ends where the URL does, even when the path has spaces, quotes or parentheses.
+const cssURLPlaceholderRegex = /foundry-url:([\w%.!~*-]+)/g;
+
+/**
+ * @param foundryPath - The path relative to Foundry's root, optionally followed by a query or fragment like `fonts/x.woff2?v=1#iefix`.
+ * @returns The external path to give ESBuild, see `rewriteCSSURLs`.
+ */
+export function getCSSURLPlaceholder(foundryPath: string): string {
+    return `${cssURLPrefix}${encodeURIComponent(foundryPath).replace(
+        /['()]/g,
+        encodeCharacter
+    )}`;
+}
+
+/**
+ * A stylesheet imported from another directory, or from JS, is bundled into an output that lives somewhere else than the file the `url()` was written in. Foundry paths are therefore only made relative once the output is known, relative to where Foundry serves it at `<packageType>s/<packageName>/`. This keeps them working whatever `$ROUTE_PREFIX` is.
+ *
+ * With `write: false` the outputs are rewritten within `result.outputFiles` instead of on disk.
+ */
+export async function rewriteCSSURLs(
+    pluginData: PluginData,
+    result: BuildResult
+): Promise<void> {
+    if (result.errors.length !== 0 || typeof result.metafile === "undefined") {
+        return;
+    }
+
+    const packagePath = path.join(
+        `${pluginData.packageType}s`,
+        pluginData.packageName
+    );
+
+    // Only given with `write: false`, this is the same array so that replacing a file replaces it in the result.
+    const outputFiles = result.outputFiles ?? [];
+
+    for (const outputPath of Object.keys(result.metafile.outputs)) {
+        if (path.extname(outputPath) !== ".css") {
+            continue;
+        }
+
+        const outputFile = nativePath.resolve(outputPath);
+        const outputFileIndex = outputFiles.findIndex(
+            (file) => nativePath.resolve(file.path) === outputFile
+        );
+        const inMemory = outputFiles[outputFileIndex];
+
+        const contents =
+            typeof result.outputFiles === "undefined"
+                ? await fs.promises.readFile(outputFile, "utf-8")
+                : inMemory?.text;
+        if (
+            typeof contents === "undefined" ||
+            !contents.includes(cssURLPrefix)
+        ) {
+            continue;
+        }
+
+        const foundryDir = path.join(
+            packagePath,
+            path.dirname(
+                normalize(nativePath.relative(pluginData.outdir, outputFile))
+            )
+        );
+
+        const rewritten = contents.replace(
+            cssURLPlaceholderRegex,
+            (_, encodedPath: string) => {
+                const [filePath, suffix] = splitURLSuffix(
+                    decodeURIComponent(encodedPath)
+                );
+
+                const url = `${path.relative(foundryDir, filePath)}${suffix}`;
+
+                // Whether ESBuild quoted the URL or not, it must not end early.
+                return url.replace(/[\s"'()\\]/g, encodeCharacter);
+            }
+        );
+
+        pluginData.log(
+            `Rewrote the Foundry URLs in ${JSON.stringify(
+                outputPath
+            )} relative to ${JSON.stringify(foundryDir)}.`
+        );
+
+        if (typeof inMemory === "undefined") {
+            await fs.promises.writeFile(outputFile, rewritten, "utf-8");
+        } else {
+            // The text of an output file is decoded from its original contents so the whole file is replaced.
+            outputFiles[outputFileIndex] = {
+                path: inMemory.path,
+                contents: Buffer.from(rewritten, "utf-8"),
+                text: rewritten,
+            };
+        }
+    }
+}
+
+/**
+ * @returns The path without any query or fragment, followed by the query and fragment.
+ */
+export function splitURLSuffix(url: string): [string, string] {
+    const suffixStart = url.search(/[?#]/);
+    if (suffixStart === -1) {
+        return [url, ""];
+    }
+
+    return [url.slice(0, suffixStart), url.slice(suffixStart)];
+}
+
+function encodeCharacter(character: string): string {
+    return `%${character
+        .charCodeAt(0)
+        .toString(16)
+        .toUpperCase()
+        .padStart(2, "0")}`;
+}
@@ -0,0 +1,252 @@
+import fs from "fs";
+import nativePath from "path";
+import type { BuildResult } from "esbuild";
+
+import type { PluginData } from "./pluginData";
+import { normalize } from "./onResolve";
+import {
+    copyFileIfChanged,
+    getFilesRecursively,
+    isWorldData,
+    removeCopiedFile,
+} from "./files";
+
+const { posix: path } = nativePath;
+
+export type DeployMode = "symlink" | "copy";
+
+export type DeployOptions = {
+    /** "symlink" links outdir into the Data folder once, "copy" copies outdir there after every build. */
+    mode: DeployMode;
+
+    /** Defaults to false. Whether to replace whatever is at the target even when it isn't this package. */
+    force?: boolean;
+};
+
+/**
+ * Deploys outdir to `Data/<packageType>s/<packageName>` within Foundry's data path so that Foundry loads the build directly. A world's data already in the Data folder is kept, linking over it is refused as that would hide it.
+ */
+export async function deploy(
+    pluginData: PluginData,
+    result: BuildResult
+): Promise<void> {
+    const { deploy: deployOptions, foundryPaths, log } = pluginData;
+
+    if (typeof deployOptions === "undefined" || result.errors.length !== 0) {
+        return;
+    }
+
+    if (typeof foundryPaths?.dataPath === "undefined") {
+        log(
+            "Not deploying as there's no Foundry data path, there's none when `ci` is set or imports are checked against a `foundryIndex`."
+        );
+
+        return;
+    }
+
+    const target = nativePath.join(
+        foundryPaths.dataPath,
+        "Data",
+        `${pluginData.packageType}s`,
+        pluginData.packageName
+    );
+    const outdir = nativePath.resolve(pluginData.outdir);
+
+    if (deployOptions.mode === "symlink") {
+        if (await isLinkTo(target, outdir)) {
+            return;
+        }
+
+        await clearTarget(pluginData, deployOptions, target);
+        await fs.promises.mkdir(nativePath.dirname(target), {
+            recursive: true,
+        });
+
+        // Junctions let Windows link directories without elevated permissions, other platforms ignore the type.
+        await fs.promises.symlink(outdir, target, "junction");
+
+        log(`Linked ${JSON.stringify(target)} to ${JSON.stringify(outdir)}.`);
+
+        return;
+    }
+
+    await clearTarget(pluginData, deployOptions, target);
+    await copyOutdir(pluginData, outdir, target);
+}
+
+/**
+ * Copies what changed in outdir since the last deploy, the same way assets are copied. Anything else in the target is left over from an earlier deploy and removed, except for a world's data.
+ */
+async function copyOutdir(
+    pluginData: PluginData,
+    outdir: string,
+    target: string
+): Promise<void> {
+    const { deployedFiles, log } = pluginData;
+
+    const isDeployed = (file: string) =>
+        pluginData.packageType !== "world" || !isWorldData(file);
+    const getRelativeFiles = async (dir: string) =>
+        (await getFilesRecursively(normalize(dir)))
+            .map((file) => path.relative(normalize(dir), file))
+            .filter(isDeployed);
+
+    const files = await getRelativeFiles(outdir);
+
+    const copied = [];
+    for (const file of files) {
+        if (await copyFileIfChanged(deployedFiles, file, outdir, target)) {
+            copied.push(file);
+        }
+    }
+
+    const deployed = new Set(files);
+    const removed = (await getRelativeFiles(target)).filter(
+        (file) => !deployed.has(file)
+    );
+    for (const file of removed) {
+        await removeCopiedFile(target, file);
+    }
+
+    for (const file of Object.keys(deployedFiles)) {
+        if (!deployed.has(file)) {
+            delete deployedFiles[file];
+        }
+    }
+
+    log(
+        `Copied ${JSON.stringify(outdir)} to ${JSON.stringify(target)}:`,
+        copied,
+        "Removed:",
+        removed
+    );
+}
+
+async function isLinkTo(target: string, outdir: string): Promise<boolean> {
+    const linked = await fs.promises.readlink(target).catch(() => undefined);
+    if (typeof linked === "undefined") {
+        return false;
+    }
+
+    return (
+        normalize(nativePath.resolve(nativePath.dirname(target), linked)) ===
+        normalize(outdir)
+    );
+}
+
+/**
+ * Removes whatever is at the target so that it can be replaced, refusing to when it's another package or isn't recognizably a package at all. When copying, an earlier copy of this package is kept so that only what changed is copied again.
+ */
+async function clearTarget(
+    pluginData: PluginData,
+    deployOptions: DeployOptions,
+    target: string
+): Promise<void> {
+    const stats = await fs.promises.lstat(target).catch(() => undefined);
+    if (typeof stats === "undefined") {
+        // Whatever was copied before is gone.
+        pluginData.deployedFiles = {};
+
+        return;
+    }
+
+    const reason = await getClobberReason(pluginData, target);
+    if (typeof reason !== "undefined" && !deployOptions.force) {
+        throw new Error(
+            `Refusing to deploy to ${JSON.stringify(
+                target
+            )} because ${reason}. Remove it yourself or set the deploy option's force to true to replace it.`
+        );
+    }
+
+    if (
+        deployOptions.mode === "copy" &&
+        typeof reason === "undefined" &&
+        !stats.isSymbolicLink()
+    ) {
+        return;
+    }
+
+    pluginData.deployedFiles = {};
+
+    // Removing a link leaves whatever it points to alone.
+    if (stats.isSymbolicLink()) {
+        await fs.promises.unlink(target);
+    } else if (pluginData.packageType === "world") {
+        await clearWorld(deployOptions, target);
+    } else {
+        await fs.promises.rm(target, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Removes the files of an earlier deploy of a world, leaving the world's data where it is. Even when forced, a world with data isn't replaced by a link.
+ */
+async function clearWorld(
+    deployOptions: DeployOptions,
+    target: string
+): Promise<void> {
+    const worldPath = normalize(target);
+    const files = await getFilesRecursively(worldPath);
+    const isData = (file: string) =>
+        isWorldData(path.relative(worldPath, file));
+
+    if (deployOptions.mode === "symlink") {
+        if (files.some(isData)) {
+            throw new Error(
+                `Refusing to link over ${JSON.stringify(
+                    target
+                )} because it holds the world's data. Deploy the world with the "copy" mode instead.`
+            );
+        }
+
+        await fs.promises.rm(target, { recursive: true, force: true });
+
+        return;
+    }
+
+    for (const file of files) {
+        if (!isData(file)) {
+            await fs.promises.rm(file);
+        }
+    }
+}
+
+/**
+ * @returns Why the target doesn't look like an earlier deploy of this package, or undefined if it does.
+ */
+async function getClobberReason(
+    pluginData: PluginData,
+    target: string
+): Promise<string | undefined> {
+    const manifestFile = `${pluginData.packageType}.json`;
+
+    const entries = await fs.promises.readdir(target).catch(() => undefined);
+    if (typeof entries === "undefined") {
+        return "it is not a directory";
+    }
+
+    if (entries.length === 0) {
+        return undefined;
+    }
+
+    let manifestJSON;
+    try {
+        manifestJSON = JSON.parse(
+            await fs.promises.readFile(
+                nativePath.join(target, manifestFile),
+                "utf-8"
+            )
+        );
+    } catch {
+        return `it has no readable ${JSON.stringify(manifestFile)}`;
+    }
+
+    // Since v10 packages are identified by `id`, before that `name`.
+    const id = manifestJSON?.id ?? manifestJSON?.name;
+    if (id !== pluginData.packageName) {
+        return `it contains the package ${JSON.stringify(id)}`;
+    }
+
+    return undefined;
+}
@@ -1,8 +1,9 @@
 import nativePath from "path";
-import type { PluginBuild } from "esbuild";
+import type { OnResolveArgs, OnResolveResult, PluginBuild } from "esbuild";
 import type { PluginData } from "./pluginData";
 
 import { normalize } from "./onResolve";
+import { getManifest, resolveDuringSetup } from "./foundryManifest";
 
 const { posix: path } = nativePath;
 
@@ -15,6 +16,10 @@ export async function configureEntrypoints(
 ): Promise<void> {
     build.initialOptions.entryPoints ??= [];
 
+    if (pluginData.entrypointsFromManifest) {
+        await addManifestEntrypoints(pluginData, build);
+    }
+
     const { entryPoints } = build.initialOptions;
 
     const entries = Array.isArray(entryPoints)
@@ -24,37 +29,137 @@ export async function configureEntrypoints(
         throw new Error(
             `The plugin ${JSON.stringify(
                 pluginData.pluginName
-            )} currently requires configuring entrypoints, set them in your ESBuild configuration.`
+            )} currently requires configuring entrypoints, set them in your ESBuild configuration or enable the entrypointsFromManifest option.`
         );
     }
 
-    let jsEntry;
-    let cssEntry;
+    const js = [];
+    const css = [];
     for (const entry of entries) {
-        const { ext } = path.parse(normalize(entry));
+        // Entrypoints are given relative to the working directory while the manifest is relative to the project root.
+        const projectRelative = normalize(
+            nativePath.relative(
+                pluginData.projectRoot,
+                nativePath.resolve(entry)
+            )
+        );
+
+        const { ext } = path.parse(projectRelative);
 
         if (jsExtensions.has(ext)) {
-            if (typeof jsEntry !== "undefined") {
-                throw new Error(
-                    `The plugin ${JSON.stringify(
-                        pluginData.pluginName
-                    )} does not currently support multiple entrypoints for JS or CSS.`
-                );
-            }
-
-            jsEntry = entry;
+            js.push(projectRelative);
         }
 
         if (cssExtensions.has(ext)) {
-            if (typeof cssEntry !== "undefined") {
-                throw new Error(
-                    `The plugin ${JSON.stringify(
-                        pluginData.pluginName
-                    )} does not currently support multiple entrypoints for JS or CSS.`
-                );
-            }
-
-            cssEntry = entry;
+            css.push(projectRelative);
         }
     }
+
+    pluginData.entrypoints = { js, css };
+}
+
+// Marks the resolve made from within `onResolveEntrypoint` so that it doesn't handle it again.
+const entrypointResolve = Symbol("entrypointResolve");
+
+/**
+ * Files read by the plugin itself, like the manifest, pack documents and assets, can only be watched by returning them from `onResolve` or `onLoad`. Entrypoints are resolved on every build so the files are attached to them.
+ */
+export async function onResolveEntrypoint(
+    pluginData: PluginData,
+    build: PluginBuild,
+    args: OnResolveArgs
+): Promise<OnResolveResult | undefined> {
+    if (args.kind !== "entry-point" || args.pluginData === entrypointResolve) {
+        return undefined;
+    }
+
+    const {
+        errors,
+        warnings,
+        path: resolvedPath,
+        namespace,
+        external,
+        sideEffects,
+        suffix,
+        pluginData: resolvedPluginData,
+    } = await build.resolve(args.path, {
+        resolveDir: args.resolveDir,
+        kind: args.kind,
+        pluginData: entrypointResolve,
+    });
+
+    return {
+        errors,
+        warnings,
+        path: resolvedPath,
+        namespace,
+        external,
+        sideEffects,
+        suffix,
+        pluginData: resolvedPluginData,
+        watchFiles: [
+            ...pluginData.manifestWatch.watchFiles,
+            ...pluginData.assetsWatch.watchFiles,
+        ],
+        watchDirs: [
+            ...pluginData.manifestWatch.watchDirs,
+            ...pluginData.assetsWatch.watchDirs,
+        ],
+    };
+}
+
+/**
+ * Adds every local JS and CSS import from the manifest as an entrypoint, skipping any that are already configured.
+ */
+async function addManifestEntrypoints(
+    pluginData: PluginData,
+    build: PluginBuild
+): Promise<void> {
+    const { log } = pluginData;
+
+    const { localImports } = await getManifest(
+        pluginData,
+        async (importPath, options) =>
+            await resolveDuringSetup(build, importPath, {
+                ...options,
+                pluginName: pluginData.pluginName,
+            })
+    );
+
+    const { entryPoints = [] } = build.initialOptions;
+    const configured = new Set(
+        (Array.isArray(entryPoints)
+            ? entryPoints
+            : Object.values(entryPoints)
+        ).map((entry) => normalize(nativePath.resolve(entry)))
+    );
+
+    const manifestEntries = localImports
+        .filter((localImport) => {
+            const { ext } = path.parse(localImport);
+
+            return jsExtensions.has(ext) || cssExtensions.has(ext);
+        })
+        .map((localImport) => path.join(pluginData.projectRoot, localImport))
+        .filter((entry) => !configured.has(entry));
+
+    log("Adding entrypoints from the manifest:", manifestEntries);
+
+    if (Array.isArray(entryPoints)) {
+        build.initialOptions.entryPoints = [...entryPoints, ...manifestEntries];
+
+        return;
+    }
+
+    // Entrypoints given as an object map the output path, without an extension, to the input.
+    const entryPointsObj = { ...entryPoints };
+    for (const entry of manifestEntries) {
+        const { dir, name } = path.parse(
+            path.relative(pluginData.projectRoot, entry)
+        );
+
+        entryPointsObj[path.join(dir, name)] = entry;
+    }
+
+    build.initialOptions.entryPoints = entryPointsObj;
 }
@@ -0,0 +1,154 @@
+import crypto from "crypto";
+import fs from "fs";
+import nativePath, { posix as path } from "path";
+
+// The folders Foundry keeps a world's documents and compendiums in, LevelDB databases since v11.
+const worldDataDirs = ["data", "packs"];
+
+/**
+ * Lists every file within the directory, recursively, in a stable order so that anything generated from them is the same across builds.
+ * Symlinks are followed, linked package folders are the usual way of developing one.
+ *
+ * @param dirs - Every directory visited is added to this, for example so that they can be watched for new files.
+ * @param skipDir - Directories it returns true for are not visited.
+ */
+export async function getFilesRecursively(
+    dir: string,
+    dirs: string[] = [],
+    skipDir: (dirPath: string) => boolean = () => false
+): Promise<string[]> {
+    dirs.push(dir);
+
+    const dirEntries = await fs.promises.readdir(dir, { withFileTypes: true });
+    dirEntries.sort((a, b) => {
+        if (a.name === b.name) {
+            return 0;
+        }
+
+        return a.name < b.name ? -1 : 1;
+    });
+
+    const files = [];
+    for (const dirEntry of dirEntries) {
+        const entryPath = path.join(dir, dirEntry.name);
+
+        const isDirectory = dirEntry.isSymbolicLink()
+            ? await fs.promises.stat(entryPath).then(
+                  (stats) => stats.isDirectory(),
+                  () => false
+              )
+            : dirEntry.isDirectory();
+        if (!isDirectory) {
+            files.push(entryPath);
+        } else if (!skipDir(entryPath)) {
+            files.push(
+                ...(await getFilesRecursively(entryPath, dirs, skipDir))
+            );
+        }
+    }
+
+    return files;
+}
+
+/**
+ * Whether a path within a world's folder is data Foundry writes as the world is played. These are `.db` files, NeDB databases before v11, and anything within the `data` and `packs` folders.
+ *
+ * @param worldRelative - A path relative to the world's folder.
+ */
+export function isWorldData(worldRelative: string): boolean {
+    const [firstDir] = worldRelative.split("/");
+
+    return (
+        worldRelative.endsWith(".db") ||
+        (worldRelative.includes("/") && worldDataDirs.includes(firstDir ?? ""))
+    );
+}
+
+export type CopiedFile = {
+    /** The modification time of the source when it was last copied or compared. */
+    mtimeMs: number;
+
+    /** The SHA-256 hash of the contents copied. */
+    hash: string;
+};
+
+/**
+ * Copies a file unless it's known to be unchanged, that is its modification time is what it was when it was last copied or its hash is the same as what's at the destination. A destination that's been removed is always copied again.
+ *
+ * @param copiedFiles - What was copied by earlier builds, keyed by the path relative to both directories. This is updated with the file.
+ * @param file - The path of the file relative to both directories.
+ * @returns Whether the file was copied.
+ */
+export async function copyFileIfChanged(
+    copiedFiles: Record<string, CopiedFile | undefined>,
+    file: string,
+    sourceDir: string,
+    outputDir: string
+): Promise<boolean> {
+    const sourcePath = nativePath.join(sourceDir, file);
+    const outputPath = nativePath.join(outputDir, file);
+
+    const { mtimeMs } = await fs.promises.stat(sourcePath);
+    const previous = copiedFiles[file];
+    const outputExists = await fs.promises.access(outputPath).then(
+        () => true,
+        () => false
+    );
+    if (outputExists && previous?.mtimeMs === mtimeMs) {
+        return false;
+    }
+
+    const hash = await hashFile(sourcePath);
+
+    // The first build compares against the destination as it may already be up to date from an earlier run.
+    const outputHash =
+        typeof previous === "undefined"
+            ? await hashFile(outputPath).catch(() => undefined)
+            : previous.hash;
+
+    copiedFiles[file] = { mtimeMs, hash };
+
+    if (outputExists && hash === outputHash) {
+        return false;
+    }
+
+    await fs.promises.mkdir(nativePath.dirname(outputPath), {
+        recursive: true,
+    });
+    await fs.promises.copyFile(sourcePath, outputPath);
+
+    return true;
+}
+
+/**
+ * Removes a copied file along with any directories that are left empty by it.
+ *
+ * @param file - The path of the file relative to the output directory.
+ */
+export async function removeCopiedFile(
+    outputDir: string,
+    file: string
+): Promise<void> {
+    await fs.promises.rm(nativePath.join(outputDir, file), { force: true });
+
+    let dir = path.dirname(file);
+    while (dir !== ".") {
+        const removedDir = await fs.promises
+            .rmdir(nativePath.join(outputDir, dir))
+            .then(
+                () => true,
+                () => false
+            );
+        if (!removedDir) {
+            break;
+        }
+
+        dir = path.dirname(dir);
+    }
+}
+
+async function hashFile(filePath: string): Promise<string> {
+    const contents = await fs.promises.readFile(filePath);
+
+    return crypto.createHash("sha256").update(contents).digest("hex");
+}
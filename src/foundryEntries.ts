@@ -1,47 +1,213 @@
 import fs from "fs";
 import nativePath from "path";
 
-import { pluginName, type FoundryPaths } from "./pluginData";
+import type { PartialMessage } from "esbuild";
+
+import { pluginName, type FoundryPaths, type PluginData } from "./pluginData";
 import { normalize } from "./onResolve";
+import { parseMajorVersion } from "./manifestSchema";
+
+type FoundryLayout = {
+    /** The directories within `resources/app/public` that are served at Foundry's root. */
+    publicIncluded: string[];
 
-const currentlyCompatibleWith = `This plugin, ${pluginName} is currently compatible with Foundry v9.`;
-
-// Both included and excluded directories are included to provide good error messages for if an unknown directory shows up.
-const publicIncludedDirectories = [
-    "cards",
-    "css",
-    "fonts",
-    "icons",
-    "lang",
-    "scripts",
-    "sounds",
-    "ui",
-];
-const publicExcludedDirectories = ["docs"];
-const publicAllDirectories = [
-    ...publicIncludedDirectories,
-    ...publicExcludedDirectories,
-];
-
-const publicIncludedSet = new Set(publicIncludedDirectories);
-const publicExcludedSet = new Set(publicExcludedDirectories);
+    /** The directories within `resources/app/public` that are not served. Both included and excluded directories are listed to provide good error messages for if an unknown directory shows up. */
+    publicExcluded: string[];
+
+    /** The folders within `resources/app/node_modules` whose contents are served within `scripts`. */
+    nodeModules: string[];
+};
 
 // `.db` files within the worlds folder is forbidden by Foundry's express server.
 // const forbiddenRegex = /worlds\/(.*)\.db/;
 
-const nodeModulesInclude = [
-    "handlebars/dist",
-    "handlebars-intl/dist",
-    "jquery/dist",
-    "pixi.js/dist/browser",
-    "pixi-particles/dist",
-    "@pixi/graphics-smooth/dist",
-    "simple-peer",
-    "socket.io-client/dist",
-    "tinymce",
-];
+/** How each major version of Foundry lays out the files it serves from `resources/app`. */
+const foundryLayouts: Record<number, FoundryLayout | undefined> = {
+    9: {
+        publicIncluded: [
+            "cards",
+            "css",
+            "fonts",
+            "icons",
+            "lang",
+            "scripts",
+            "sounds",
+            "ui",
+        ],
+        publicExcluded: ["docs"],
+        nodeModules: [
+            "handlebars/dist",
+            "handlebars-intl/dist",
+            "jquery/dist",
+            "pixi.js/dist/browser",
+            "pixi-particles/dist",
+            "@pixi/graphics-smooth/dist",
+            "simple-peer",
+            "socket.io-client/dist",
+            "tinymce",
+        ],
+    },
+    10: {
+        publicIncluded: [
+            "cards",
+            "css",
+            "fonts",
+            "icons",
+            "lang",
+            "nue",
+            "scripts",
+            "sounds",
+            "tours",
+            "ui",
+        ],
+        publicExcluded: ["docs"],
+        nodeModules: [
+            "handlebars/dist",
+            "handlebars-intl/dist",
+            "jquery/dist",
+            "pixi.js/dist/browser",
+            "@pixi/particle-emitter/dist",
+            "@pixi/graphics-smooth/dist",
+            "simple-peer",
+            "socket.io-client/dist",
+            "tinymce",
+        ],
+    },
+    11: {
+        publicIncluded: [
+            "cards",
+            "css",
+            "fonts",
+            "icons",
+            "lang",
+            "nue",
+            "scripts",
+            "sounds",
+            "tours",
+            "ui",
+        ],
+        publicExcluded: ["docs"],
+        nodeModules: [
+            "handlebars/dist",
+            "handlebars-intl/dist",
+            "jquery/dist",
+            "pixi.js/dist",
+            "@pixi/particle-emitter/dist",
+            "@pixi/graphics-smooth/dist",
+            "simple-peer",
+            "socket.io-client/dist",
+            "tinymce",
+        ],
+    },
+};
+
+const knownVersions = Object.keys(foundryLayouts)
+    .map(Number)
+    .sort((a, b) => a - b);
+
+export type FoundryLayoutInfo = {
+    layout: FoundryLayout;
+
+    /** The major version whose layout is used. */
+    layoutVersion: number;
+
+    /** Whether the installed version is one with a known layout. Otherwise the layout of the closest older version is used, or the oldest, and unexpected files and folders are tolerated. */
+    known: boolean;
+};
+
+/**
+ * Reads the version of Foundry from the install's `package.json`.
+ *
+ * @param appPath - The path to `resources/app` within the Foundry install.
+ * @returns The version string, for example "9.280" or "11.315", or undefined if it can't be read.
+ */
+export async function getFoundryVersion(
+    appPath: string
+): Promise<string | undefined> {
+    try {
+        const packageJSON = JSON.parse(
+            await fs.promises.readFile(
+                nativePath.join(appPath, "package.json"),
+                "utf8"
+            )
+        );
+
+        return typeof packageJSON?.version === "string"
+            ? packageJSON.version
+            : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * @param version - The version of the Foundry install, for example "9.280", or undefined if it couldn't be read.
+ */
+export function getFoundryLayout(
+    version: string | undefined
+): FoundryLayoutInfo {
+    const majorVersion = parseMajorVersion(version);
+
+    const layout =
+        typeof majorVersion === "undefined"
+            ? undefined
+            : foundryLayouts[majorVersion];
+    if (typeof majorVersion !== "undefined" && typeof layout !== "undefined") {
+        return { layout, layoutVersion: majorVersion, known: true };
+    }
+
+    const olderVersions = knownVersions.filter(
+        (knownVersion) => knownVersion <= (majorVersion ?? 0)
+    );
+    const layoutVersion = (olderVersions[olderVersions.length - 1] ??
+        knownVersions[0]) as number;
+
+    return {
+        layout: foundryLayouts[layoutVersion] as FoundryLayout,
+        layoutVersion,
+        known: false,
+    };
+}
+
+/**
+ * @returns A warning when the Foundry install is of a version without a known layout, in which case imports are checked against the closest known layout.
+ */
+export function getFoundryVersionWarnings(
+    pluginData: PluginData
+): PartialMessage[] {
+    const { foundryPaths, foundryVersion } = pluginData;
+    if (typeof foundryPaths === "undefined") {
+        return [];
+    }
+
+    const { layoutVersion, known } = getFoundryLayout(foundryVersion);
+    if (known) {
+        return [];
+    }
+
+    const knownList = humanizeList(knownVersions.map((v) => `v${v}`));
+
+    return [
+        {
+            pluginName,
+            text:
+                typeof foundryVersion === "undefined"
+                    ? `Could not read the version of the Foundry install at ${JSON.stringify(
+                          foundryPaths.appPath
+                      )}`
+                    : `The Foundry version ${JSON.stringify(
+                          foundryVersion
+                      )} is not known to ${pluginName}`,
+            detail: `Imports are checked against the files Foundry v${layoutVersion} serves, this may cause imports to be wrongly reported as missing. The plugin knows ${knownList}, make sure it is up to date and if it is, consider filing an issue with the plugin.`,
+        },
+    ];
+}
+
+/** Which of Foundry's folders an entry is served from, "app" being `resources/app` and "data" being the Data folder. */
+export type FoundryRoot = "app" | "data";
 
 export type EntryInfo = {
+    root: FoundryRoot;
     destinationPath: string;
     parentDir: string;
     sourcePath: string;
@@ -50,35 +216,62 @@ export type EntryInfo = {
 
 /**
  * Retrieves a list of files and folders that are Foundry entries. Only files and folders put at the top level are retrieved to keep the file system calls minimal.
+ *
+ * @param warnings - Anything unexpected about the install is added to this, what's affected is left out of the entries.
  */
 export async function getFoundryRootDirEntries(
-    foundryPaths: FoundryPaths
+    foundryPaths: FoundryPaths,
+    layoutInfo: FoundryLayoutInfo,
+    warnings: PartialMessage[] = []
 ): Promise<EntryInfo[]> {
     const { appPath, dataPath } = foundryPaths;
 
-    const appEntries = await getAppEntries(appPath);
+    const appEntries = await getAppEntries(appPath, layoutInfo, warnings);
 
     // These entries are extremely straight forward, whether file or folder they're included and at the top level.
-    const dataDirEntries = await fs.promises.readdir(dataPath, {
+    // The configured data path holds Foundry's user data, the folder served at Foundry's root is the "Data" folder inside it.
+    const dataFolderPath = nativePath.join(dataPath, "Data");
+    const dataDirEntries = await fs.promises.readdir(dataFolderPath, {
         withFileTypes: true,
     });
     const dataEntries = dataDirEntries.map((d) =>
-        getEntryInfo(dataPath, "", d)
+        getEntryInfo("data", dataFolderPath, "", d)
     );
 
     return [...appEntries, ...dataEntries];
 }
 
 /**
+ * Lists the directories `getFoundryRootDirEntries` reads, the root entries only change if one of these does.
+ */
+export function getFoundryRootDirs(
+    foundryPaths: FoundryPaths,
+    layout: FoundryLayout
+): string[] {
+    const { appPath, dataPath } = foundryPaths;
+
+    return [
+        nativePath.join(dataPath, "Data"),
+        nativePath.join(appPath, "public"),
+        ...layout.nodeModules.map((moduleName) =>
+            nativePath.join(appPath, "node_modules", moduleName)
+        ),
+    ];
+}
+
+/**
+ * @param root - The Foundry folder the entry comes from
  * @param sourceDir - The folder being read within a root Foundry folder
  * @param outputDir - The folder being output to
  */
 function getEntryInfo(
+    root: FoundryRoot,
     sourceDir: string,
     outputDir: string,
     entry: fs.Dirent
 ): EntryInfo {
     return {
+        root,
         destinationPath: normalize(nativePath.join(outputDir, entry.name)),
         parentDir: normalize(sourceDir),
         sourcePath: normalize(nativePath.join(sourceDir, entry.name)),
@@ -86,76 +279,130 @@ function getEntryInfo(
     };
 }
 
-async function getAppEntries(appPath: string): Promise<EntryInfo[]> {
-    const publicEntries = await getAppPublicEntries(appPath);
-    const nodeModulesEntries = await getAppNodeModulesEntries(appPath);
+async function getAppEntries(
+    appPath: string,
+    layoutInfo: FoundryLayoutInfo,
+    warnings: PartialMessage[]
+): Promise<EntryInfo[]> {
+    const publicEntries = await getAppPublicEntries(
+        appPath,
+        layoutInfo,
+        warnings
+    );
+    const nodeModulesEntries = await getAppNodeModulesEntries(
+        appPath,
+        layoutInfo,
+        warnings
+    );
 
     return [...publicEntries, ...nodeModulesEntries];
 }
 
-async function getAppPublicEntries(appPath: string): Promise<EntryInfo[]> {
+/**
+ * Only the directories known to be served are included. A version without a known layout includes every directory besides those known to be excluded, the unexpected entries of a known version are warned about and left out.
+ */
+async function getAppPublicEntries(
+    appPath: string,
+    layoutInfo: FoundryLayoutInfo,
+    warnings: PartialMessage[]
+): Promise<EntryInfo[]> {
+    const { layout, layoutVersion, known } = layoutInfo;
     const publicPath = nativePath.join(appPath, "public");
 
+    const publicIncludedSet = new Set(layout.publicIncluded);
+    const publicExcludedSet = new Set(layout.publicExcluded);
+
     const humanDirectories = humanizeList(
-        publicAllDirectories.map((a) => JSON.stringify(a))
+        [...layout.publicIncluded, ...layout.publicExcluded]
+            .sort()
+            .map((a) => JSON.stringify(a))
     );
-    const expectedExactly = `The Foundry public folder in the configured location ${appPath} is expected to contain exactly the directories ${humanDirectories}. ${currentlyCompatibleWith}`;
+    const expectedExactly = `The Foundry public folder in the configured location ${appPath} is expected to contain exactly the directories ${humanDirectories} in Foundry v${layoutVersion}.`;
 
     const ifExpected = (type: string): string =>
         `If this ${type} is expected, make sure the plugin is up to date and if it is, consider filing an issue with the plugin.`;
 
-    const missingEntries = new Set(publicAllDirectories);
     const resultEntries = [];
     const publicEntries = await fs.promises.readdir(publicPath, {
         withFileTypes: true,
     });
     for (const publicEntry of publicEntries) {
-        if (!publicEntry.isDirectory()) {
-            throw new Error(
-                `${expectedExactly}. Found unexpected file ${JSON.stringify(
-                    publicEntry.name
-                )}.\n${ifExpected("file")}`
-            );
-        }
-
         const directoryName = publicEntry.name;
 
-        const includedDir = publicIncludedSet.has(directoryName);
-        const excludedDir = publicExcludedSet.has(directoryName);
+        const includedDir =
+            publicEntry.isDirectory() &&
+            (publicIncludedSet.has(directoryName) ||
+                (!known && !publicExcludedSet.has(directoryName)));
+        const excludedDir =
+            publicEntry.isDirectory() && publicExcludedSet.has(directoryName);
 
-        if (!includedDir && !excludedDir) {
-            throw new Error(
-                `${expectedExactly}. Found unexpected directory ${JSON.stringify(
-                    publicEntry.name
-                )}.\n${ifExpected("folder")}`
-            );
+        // Imports of what's within an unexpected entry are reported as missing, so this is only a warning.
+        if (known && !publicEntry.isDirectory()) {
+            warnings.push({
+                pluginName,
+                text: `Found unexpected file ${JSON.stringify(
+                    directoryName
+                )} in Foundry's public folder`,
+                detail: `${expectedExactly} ${ifExpected("file")}`,
+            });
+        } else if (known && !includedDir && !excludedDir) {
+            warnings.push({
+                pluginName,
+                text: `Found unexpected directory ${JSON.stringify(
+                    directoryName
+                )} in Foundry's public folder`,
+                detail: `${expectedExactly} ${ifExpected("folder")}`,
+            });
         }
 
         if (includedDir) {
             // directories within public are put at the top level.
-            resultEntries.push(getEntryInfo(publicPath, "", publicEntry));
+            resultEntries.push(
+                getEntryInfo("app", publicPath, "", publicEntry)
+            );
         }
-
-        missingEntries.delete(directoryName);
     }
 
     return resultEntries;
 }
 
-async function getAppNodeModulesEntries(appPath: string): Promise<EntryInfo[]> {
+/**
+ * Not every version ships every module of its layout so missing modules are skipped, they're warned about as imports of their files are reported as missing.
+ */
+async function getAppNodeModulesEntries(
+    appPath: string,
+    layoutInfo: FoundryLayoutInfo,
+    warnings: PartialMessage[]
+): Promise<EntryInfo[]> {
+    const { layout, layoutVersion } = layoutInfo;
     const resultEntries = [];
 
-    for (const moduleName of nodeModulesInclude) {
+    for (const moduleName of layout.nodeModules) {
         const modulePath = nativePath.join(appPath, "node_modules", moduleName);
 
-        const moduleEntries = await fs.promises.readdir(modulePath, {
-            withFileTypes: true,
-        });
+        const moduleEntries = await fs.promises
+            .readdir(modulePath, {
+                withFileTypes: true,
+            })
+            .catch(() => undefined);
+        if (typeof moduleEntries === "undefined") {
+            warnings.push({
+                pluginName,
+                text: `Could not find ${JSON.stringify(
+                    moduleName
+                )} in Foundry's node_modules`,
+                detail: `Foundry v${layoutVersion} serves its files within \`scripts\`, imports of them will be reported as missing. Expected it at ${JSON.stringify(
+                    modulePath
+                )}.`,
+            });
+
+            continue;
+        }
 
         // entries within node_modules are put in /scripts
         resultEntries.push(
             ...moduleEntries.map((entry) =>
-                getEntryInfo(modulePath, "scripts", entry)
+                getEntryInfo("app", modulePath, "scripts", entry)
             )
         );
     }
@@ -167,7 +414,7 @@ async function getAppNodeModulesEntries(appPath: string): Promise<EntryInfo[]> {
  * @param items - the list to turn into the human way of expressing items, e.g. `x and y` or `x, y, and z`.
  */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-function humanizeList(items: any[]) {
+export function humanizeList(items: any[]) {
     switch (items.length) {
         case 0:
             return "";
@@ -0,0 +1,126 @@
+import type { PluginBuild } from "esbuild";
+
+import type { PluginData } from "./pluginData";
+import { getFingerprints } from "./cacheInvalidation";
+
+/**
+ * Statically finds the names a file within the Foundry install exports. ESBuild itself does the scanning by bundling the file, this way `export * from` is followed as well. Only relative imports are followed, anything else Foundry resolves at runtime.
+ *
+ * @param sourcePath - The path to the file on disk.
+ * @returns The export names or undefined if the file couldn't be scanned.
+ */
+export async function getExportNames(
+    pluginData: PluginData,
+    build: PluginBuild,
+    sourcePath: string
+): Promise<string[] | undefined> {
+    const { log, exportsCache } = pluginData;
+
+    const { [sourcePath]: fingerprint } = await getFingerprints([sourcePath]);
+    if (fingerprint === "missing") {
+        return undefined;
+    }
+
+    const cached = exportsCache[sourcePath];
+    if (cached != null && cached.fingerprint === fingerprint) {
+        return cached.exports;
+    }
+
+    let exports;
+    try {
+        const { metafile } = await build.esbuild.build({
+            entryPoints: [sourcePath],
+            bundle: true,
+            write: false,
+            metafile: true,
+            format: "esm",
+            platform: "neutral",
+            logLevel: "silent",
+            plugins: [
+                {
+                    name: `${pluginData.pluginName}-exports`,
+                    setup(exportsBuild) {
+                        // The entry point is an absolute path and so must be left to ESBuild.
+                        exportsBuild.onResolve({ filter: /^[^.]/ }, (args) =>
+                            args.kind === "entry-point"
+                                ? undefined
+                                : { path: args.path, external: true }
+                        );
+                    },
+                },
+            ],
+        });
+
+        exports = Object.values(metafile?.outputs ?? {}).find(
+            (output) => typeof output.entryPoint !== "undefined"
+        )?.exports;
+    } catch (e) {
+        log(`Could not scan the exports of ${JSON.stringify(sourcePath)}:`, e);
+
+        return undefined;
+    }
+
+    if (typeof exports === "undefined") {
+        return undefined;
+    }
+
+    exportsCache[sourcePath] = { fingerprint, exports };
+
+    return exports;
+}
+
+// Matches `import ... from "x"` and `export ... from "x"` capturing everything between the keyword and the specifier.
+const importFromRegex =
+    /\b(import|export)\s+((?:[\w$*]|\s|[{},])*?)\s*from\s*(["'])([^"'\n]+)\3/g;
+
+/**
+ * Finds the names statically imported or re-exported from a specifier within a file. A default import is given as "default" while namespace imports and `export *` don't import any name in particular. Type only imports are skipped as TypeScript removes them.
+ *
+ * @param contents - The contents of the importing file.
+ * @param importPath - The specifier exactly as written in the file.
+ */
+export function getImportedNames(
+    contents: string,
+    importPath: string
+): string[] {
+    const names = new Set<string>();
+    for (const [, keyword, clause = "", , specifier] of contents.matchAll(
+        importFromRegex
+    )) {
+        if (specifier !== importPath || /^type\s/.test(clause)) {
+            continue;
+        }
+
+        const braceStart = clause.indexOf("{");
+        const beforeBraces = (
+            braceStart === -1 ? clause : clause.slice(0, braceStart)
+        )
+            .replace(/,\s*$/, "")
+            .trim();
+
+        // Only `import x from` has a default import, `export x from` isn't valid.
+        if (
+            keyword === "import" &&
+            beforeBraces !== "" &&
+            !beforeBraces.startsWith("*")
+        ) {
+            names.add("default");
+        }
+
+        if (braceStart === -1) {
+            continue;
+        }
+
+        const specifiers = clause
+            .slice(braceStart + 1, clause.lastIndexOf("}"))
+            .split(",");
+        for (const importSpecifier of specifiers) {
+            const [name = ""] = importSpecifier.trim().split(/\s+as\s+/);
+            if (name !== "" && !/^type\s/.test(name)) {
+                names.add(name);
+            }
+        }
+    }
+
+    return [...names];
+}
@@ -0,0 +1,163 @@
+import fs from "fs";
+import nativePath from "path";
+import type { PartialMessage } from "esbuild";
+
+import type { FoundryPaths } from "./pluginData";
+import {
+    getFoundryLayout,
+    getFoundryRootDirEntries,
+    getFoundryVersion,
+} from "./foundryEntries";
+import { getFilesRecursively } from "./files";
+
+const { posix: path } = nativePath;
+
+/** A snapshot of every file a Foundry install serves so that imports can be checked without the install, for example in CI. */
+export type FoundryIndex = {
+    /** The version of the Foundry install the index was made from. */
+    version?: string;
+
+    /** Every file served from `resources/app`, see `IndexedDirectories`. */
+    app: IndexedDirectories;
+
+    /** Every file served from the Data folder, see `IndexedDirectories`. */
+    data: IndexedDirectories;
+};
+
+/** The names of the files within each directory, keyed by the directory relative to Foundry's root, `.` for the root itself. Grouped by directory to keep the index compact. */
+export type IndexedDirectories = Record<string, string[]>;
+
+/**
+ * Lists every file within the root entries of the install. Worlds are left out as they're specific to a machine, can be large, and aren't something a package should import from.
+ *
+ * @param warnings - Anything unexpected about the install is added to this, see `getFoundryRootDirEntries`.
+ */
+export async function createFoundryIndex(
+    foundryPaths: FoundryPaths,
+    warnings: PartialMessage[] = []
+): Promise<FoundryIndex> {
+    const version = await getFoundryVersion(foundryPaths.appPath);
+    const entries = await getFoundryRootDirEntries(
+        foundryPaths,
+        getFoundryLayout(version),
+        warnings
+    );
+
+    const files = { app: [] as string[], data: [] as string[] };
+
+    for (const entry of entries) {
+        if (entry.root === "data" && entry.destinationPath === "worlds") {
+            continue;
+        }
+
+        if (entry.type === "file") {
+            files[entry.root].push(entry.destinationPath);
+
+            continue;
+        }
+
+        const entryFiles = await getFilesRecursively(entry.sourcePath);
+        files[entry.root].push(
+            ...entryFiles.map((file) =>
+                path.join(
+                    entry.destinationPath,
+                    path.relative(entry.sourcePath, file)
+                )
+            )
+        );
+    }
+
+    const app = groupByDirectory(files.app);
+    const data = groupByDirectory(files.data);
+
+    return typeof version === "undefined"
+        ? { app, data }
+        : { version, app, data };
+}
+
+/**
+ * Formats the index as JSON with a line for each directory so that it stays small but a committed index only changes on the lines of the directories that have.
+ */
+export function stringifyFoundryIndex(index: FoundryIndex): string {
+    const stringifyDirectories = (directories: IndexedDirectories) => {
+        const lines = Object.entries(directories).map(
+            ([dir, names]) =>
+                `        ${JSON.stringify(dir)}: ${JSON.stringify(names)}`
+        );
+
+        return lines.length === 0 ? "{}" : `{\n${lines.join(",\n")}\n    }`;
+    };
+
+    const lines = [
+        ...(typeof index.version === "undefined"
+            ? []
+            : [`    "version": ${JSON.stringify(index.version)}`]),
+        `    "app": ${stringifyDirectories(index.app)}`,
+        `    "data": ${stringifyDirectories(index.data)}`,
+    ];
+
+    return `{\n${lines.join(",\n")}\n}\n`;
+}
+
+/**
+ * Lists every file in the index relative to Foundry's root.
+ */
+export function getIndexedFiles(directories: IndexedDirectories): string[] {
+    return Object.entries(directories).flatMap(([dir, names]) =>
+        names.map((name) => path.join(dir, name))
+    );
+}
+
+/**
+ * Groups the files by their directory, sorted so that committed indexes only change where the install has.
+ */
+function groupByDirectory(files: string[]): IndexedDirectories {
+    const directories: IndexedDirectories = {};
+    for (const file of [...files].sort()) {
+        (directories[path.dirname(file)] ??= []).push(path.basename(file));
+    }
+
+    return directories;
+}
+
+/**
+ * @param indexPath - The path of the index, relative to the working directory.
+ */
+export async function readFoundryIndex(
+    indexPath: string
+): Promise<FoundryIndex> {
+    let index;
+    try {
+        index = JSON.parse(await fs.promises.readFile(indexPath, "utf-8"));
+    } catch (e) {
+        throw new Error(
+            `Could not read the Foundry index ${JSON.stringify(indexPath)}. ${
+                e instanceof Error ? e.message : String(e)
+            }`
+        );
+    }
+
+    const isStringArray = (value: unknown) =>
+        Array.isArray(value) && value.every((item) => typeof item === "string");
+    const isDirectories = (value: unknown) =>
+        typeof value === "object" &&
+        value !== null &&
+        !Array.isArray(value) &&
+        Object.values(value).every(isStringArray);
+    if (
+        typeof index !== "object" ||
+        index === null ||
+        !isDirectories(index.app) ||
+        !isDirectories(index.data) ||
+        (typeof index.version !== "undefined" &&
+            typeof index.version !== "string")
+    ) {
+        throw new Error(
+            `The Foundry index ${JSON.stringify(
+                indexPath
+            )} is malformed, create it again with the index command.`
+        );
+    }
+
+    return index as FoundryIndex;
+}
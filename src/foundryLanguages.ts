@@ -0,0 +1,253 @@
+import fs from "fs";
+import nativePath from "path";
+import type { Location, PartialMessage } from "esbuild";
+
+import type { PluginData } from "./pluginData";
+import { normalize } from "./onResolve";
+import {
+    getJSONLocator,
+    getJSONParseError,
+    getTextLocation,
+    type JSONPath,
+} from "./jsonLocations";
+
+const { posix: path } = nativePath;
+
+type LanguageFile = {
+    /** Finds where a key is within the file. */
+    locate: (jsonPath: JSONPath) => Partial<Location>;
+
+    /** Every key in the file, flattened like `A.B`, to where it's written. */
+    keys: Map<string, JSONPath>;
+};
+
+type Language = {
+    lang: string;
+    files: LanguageFile[];
+};
+
+export type CheckLanguagesResult = {
+    errors: PartialMessage[];
+    warnings: PartialMessage[];
+
+    /** Every localization file, these are watched so changes are checked again. */
+    watchFiles: string[];
+
+    /** Every key of the base language to where it's written, if the base language is in the manifest. */
+    baseKeys?: Map<string, Partial<Location>>;
+};
+
+// Listing every key could produce enormous messages when a language has barely been started.
+const maxListedKeys = 10;
+
+/**
+ * Loads every file in the manifest's `languages` and compares the keys of each language with the base language. Foundry merges nested objects into dotted keys so `{ "A": { "B": "" } }` and `{ "A.B": "" }` are treated the same.
+ */
+export async function checkLanguages(
+    pluginData: PluginData,
+    manifestJSON: Record<string, unknown>
+): Promise<CheckLanguagesResult> {
+    const { pluginName, localization } = pluginData;
+    const { baseLanguage } = localization;
+
+    const result: CheckLanguagesResult = {
+        errors: [],
+        warnings: [],
+        watchFiles: [],
+    };
+
+    const { languages: manifestLanguages } = manifestJSON;
+    if (!Array.isArray(manifestLanguages)) {
+        return result;
+    }
+
+    const languages = new Map<string, Language>();
+    for (const manifestLanguage of manifestLanguages) {
+        const { lang, path: languagePath } = manifestLanguage as Record<
+            string,
+            unknown
+        >;
+        if (typeof lang !== "string" || typeof languagePath !== "string") {
+            continue;
+        }
+
+        const filePath = path.join(pluginData.projectRoot, languagePath);
+
+        // Languages that resolve within Foundry's "scripts" directory aren't ours to check.
+        const exists = await fs.promises.access(filePath).then(
+            () => true,
+            () => false
+        );
+        if (!exists) {
+            continue;
+        }
+
+        result.watchFiles.push(filePath);
+
+        const read = await readLanguageFile(pluginData, filePath);
+        if ("error" in read) {
+            result.errors.push(read.error);
+            continue;
+        }
+
+        // A language may be split across several files, like a module adding to a system's language.
+        const language = languages.get(lang) ?? { lang, files: [] };
+        language.files.push(read.file);
+        languages.set(lang, language);
+    }
+
+    if (result.errors.length !== 0 || languages.size === 0) {
+        return result;
+    }
+
+    const base = languages.get(baseLanguage);
+    if (typeof base === "undefined") {
+        result.warnings.push({
+            pluginName,
+            text: `The base language ${JSON.stringify(
+                baseLanguage
+            )} is not in the manifest's languages so they can't be compared`,
+            detail: `Set the localization.baseLanguage option to one of ${[
+                ...languages.keys(),
+            ]
+                .map((lang) => JSON.stringify(lang))
+                .join(", ")}.`,
+        });
+
+        return result;
+    }
+
+    const baseKeys = getKeys(base);
+    result.baseKeys = new Map(
+        [...baseKeys].map(([key, { file, jsonPath }]) => [
+            key,
+            file.locate(jsonPath),
+        ])
+    );
+
+    for (const language of languages.values()) {
+        if (language === base) {
+            continue;
+        }
+
+        const keys = getKeys(language);
+        const [firstFile] = language.files as [LanguageFile];
+
+        const missing = [...baseKeys.keys()].filter((key) => !keys.has(key));
+        if (missing.length !== 0) {
+            result.warnings.push({
+                pluginName,
+                text: `The language ${JSON.stringify(
+                    language.lang
+                )} is missing ${countKeys(missing)} from ${JSON.stringify(
+                    baseLanguage
+                )}: ${listKeys(missing)}`,
+                location: firstFile.locate([]),
+            });
+        }
+
+        const extra = [...keys.keys()].filter((key) => !baseKeys.has(key));
+        if (extra.length !== 0) {
+            const [firstExtra] = extra as [string];
+            const { file, jsonPath } = keys.get(firstExtra) as KeyLocation;
+
+            result.warnings.push({
+                pluginName,
+                text: `The language ${JSON.stringify(
+                    language.lang
+                )} has ${countKeys(extra)} not in ${JSON.stringify(
+                    baseLanguage
+                )}: ${listKeys(extra)}`,
+                location: file.locate(jsonPath),
+            });
+        }
+    }
+
+    return result;
+}
+
+type KeyLocation = { file: LanguageFile; jsonPath: JSONPath };
+
+function getKeys(language: Language): Map<string, KeyLocation> {
+    const keys = new Map<string, KeyLocation>();
+    for (const file of language.files) {
+        for (const [key, jsonPath] of file.keys) {
+            if (!keys.has(key)) {
+                keys.set(key, { file, jsonPath });
+            }
+        }
+    }
+
+    return keys;
+}
+
+export function countKeys(keys: string[]): string {
+    return keys.length === 1 ? "1 key" : `${keys.length} keys`;
+}
+
+export function listKeys(keys: string[]): string {
+    const listed = keys.slice(0, maxListedKeys).join(", ");
+
+    return keys.length > maxListedKeys
+        ? `${listed}, and ${keys.length - maxListedKeys} more`
+        : listed;
+}
+
+async function readLanguageFile(
+    pluginData: PluginData,
+    filePath: string
+): Promise<{ file: LanguageFile } | { error: PartialMessage }> {
+    const { pluginName } = pluginData;
+
+    // Locations are given relative to the working directory like ESBuild's own messages.
+    const messageFile = normalize(nativePath.relative(process.cwd(), filePath));
+
+    const text = await fs.promises.readFile(filePath, "utf-8");
+
+    let json;
+    try {
+        json = JSON.parse(text);
+    } catch (e) {
+        return {
+            error: getJSONParseError(pluginName, text, messageFile, e),
+        };
+    }
+
+    if (typeof json !== "object" || json === null || Array.isArray(json)) {
+        return {
+            error: {
+                pluginName,
+                text: `The localization file ${JSON.stringify(
+                    messageFile
+                )} must contain an object`,
+                location: getTextLocation(text, messageFile, 0),
+            },
+        };
+    }
+
+    const keys = new Map<string, JSONPath>();
+    flattenKeys(json, [], keys);
+
+    return {
+        file: {
+            locate: getJSONLocator(text, messageFile),
+            keys,
+        },
+    };
+}
+
+function flattenKeys(
+    value: Record<string, unknown>,
+    jsonPath: string[],
+    keys: Map<string, JSONPath>
+) {
+    for (const [key, item] of Object.entries(value)) {
+        const itemPath = [...jsonPath, key];
+
+        if (typeof item === "object" && item !== null && !Array.isArray(item)) {
+            flattenKeys(item as Record<string, unknown>, itemPath, keys);
+        } else {
+            keys.set(itemPath.join("."), itemPath);
+        }
+    }
+}
@@ -5,30 +5,79 @@ import type {
     PluginBuild,
     OnStartResult,
     ResolveResult,
+    BuildOptions,
     BuildResult,
     Metafile,
+    PartialMessage,
+    ResolveOptions,
+    Location,
 } from "esbuild";
 
 import type { PluginData } from "./pluginData";
 import { normalize } from "./onResolve";
 import * as manifestSchema from "./manifestSchema";
+import {
+    getJSONLocator,
+    getJSONParseError,
+    type JSONPath,
+} from "./jsonLocations";
+import { compilePack, isPackSource, type CompiledPack } from "./foundryPacks";
+import { checkLanguages } from "./foundryLanguages";
+import { logWarnings } from "./buildMessages";
 
 const { posix: path } = nativePath;
 
+/**
+ * Validates the manifest against the schema for its version.
+ *
+ * @param locate - Finds where a property is within the manifest file.
+ * @returns An error for every schema violation.
+ */
 async function validateManifest(
     pluginData: PluginData,
-    manifestJSON: string
-): Promise<void> {
+    manifestJSON: ManifestJSON,
+    locate: (jsonPath: JSONPath) => Partial<Location>
+): Promise<PartialMessage[]> {
+    const { log, pluginName } = pluginData;
+
+    const manifestFile = `${pluginData.packageType}.json`;
+
     const validator = new Validator();
 
-    let schema;
-    if (pluginData.packageType === "module") {
-        schema = manifestSchema.module;
-    } else {
-        schema = manifestSchema.system;
-    }
+    const manifestVersion = manifestSchema.getManifestVersion(
+        manifestJSON,
+        manifestSchema.parseMajorVersion(pluginData.foundryVersion)
+    );
 
-    validator.validate(manifestJSON, schema, { throwAll: true });
+    log(`Validating the manifest against the v${manifestVersion} schema.`);
+
+    const schema = manifestSchema.getSchema(
+        pluginData.packageType,
+        manifestVersion
+    );
+
+    const { errors } = validator.validate(manifestJSON, schema);
+
+    return errors.map((error) => {
+        const property = error.path
+            .map((key) => (typeof key === "number" ? `[${key}]` : `.${key}`))
+            .join("")
+            .replace(/^\./, "");
+
+        return {
+            pluginName,
+            text:
+                property === ""
+                    ? `The manifest ${JSON.stringify(manifestFile)} ${
+                          error.message
+                      }`
+                    : `The manifest property ${JSON.stringify(property)} ${
+                          error.message
+                      }`,
+            location: locate(error.path),
+            detail: `The manifest is validated against the schema for Foundry v${manifestVersion}.`,
+        };
+    });
 }
 
 export async function setupManifest(
@@ -38,45 +87,234 @@ export async function setupManifest(
     // Unfortunately as ESBuild is as of writing we have to completely handle copying over files ourselves.
     // We also have to take over watching because it's just not going to rebuild otherwise.
 
+    const manifestPath = path.join(
+        pluginData.projectRoot,
+        `${pluginData.packageType}.json`
+    );
+
     const { manifestJSON, errors, localImports } = await getManifest(
         pluginData,
-        build
+        async (importPath, options) => await build.resolve(importPath, options)
     );
     if (typeof errors !== "undefined" && errors.length !== 0) {
+        // The manifest is still watched so that fixing it rebuilds, nothing from an earlier build is kept.
+        delete pluginData.cachedManifest;
+        pluginData.manifestWatch = {
+            watchFiles: [manifestPath],
+            watchDirs: [],
+        };
+
         return {
             errors,
         };
     }
 
-    if (pluginData.cachedManifest == null) {
-        pluginData.cachedManifest = {
-            manifestJSON,
-            localImports,
+    const {
+        packs,
+        errors: packErrors,
+        watchFiles: packFiles,
+        watchDirs: packDirs,
+    } = await compileManifestPacks(pluginData, manifestJSON);
+
+    const {
+        errors: languageErrors,
+        warnings: languageWarnings,
+        watchFiles: languageFiles,
+        baseKeys,
+    } = await checkLanguages(pluginData, manifestJSON);
+
+    // The packs and languages are watched even when either fails so that fixing them rebuilds.
+    pluginData.manifestWatch = {
+        watchFiles: [manifestPath, ...packFiles, ...languageFiles],
+        watchDirs: packDirs,
+    };
+
+    if (packErrors.length !== 0) {
+        delete pluginData.cachedManifest;
+
+        return {
+            errors: [...packErrors, ...languageErrors],
+        };
+    }
+
+    // The manifest is read again on every build so that changes to it are picked up in watch mode.
+    pluginData.cachedManifest = {
+        manifestJSON,
+        localImports,
+        packs,
+        localizationKeys: baseKeys,
+    };
+
+    if (languageErrors.length !== 0) {
+        return {
+            errors: languageErrors,
+        };
+    }
+
+    if (languageWarnings.length !== 0) {
+        return {
+            warnings: languageWarnings,
         };
     }
 
     return undefined;
 }
 
+/**
+ * Compiles every pack in the manifest that points at a source directory of documents rather than a database.
+ *
+ * @returns The compiled packs by their path in the manifest, along with what to watch for every pack whether it compiled or not.
+ */
+async function compileManifestPacks(
+    pluginData: PluginData,
+    manifestJSON: ManifestJSON
+): Promise<{
+    packs: Record<string, CompiledPack>;
+    errors: PartialMessage[];
+    watchFiles: string[];
+    watchDirs: string[];
+}> {
+    const packs: Record<string, CompiledPack> = {};
+    const errors: PartialMessage[] = [];
+    const watchFiles: string[] = [];
+    const watchDirs: string[] = [];
+
+    if (pluginData.packageType === "world") {
+        return { packs, errors, watchFiles, watchDirs };
+    }
+
+    await forEachManifestImports(
+        manifestJSON,
+        async (_keyPath, importPath, manifestKey) => {
+            if (
+                manifestKey !== "packs" ||
+                !(await isPackSource(
+                    path.join(pluginData.projectRoot, importPath)
+                ))
+            ) {
+                return;
+            }
+
+            const compiled = await compilePack(pluginData, importPath);
+            errors.push(...compiled.errors);
+            watchFiles.push(...compiled.watchFiles);
+            watchDirs.push(...compiled.watchDirs);
+
+            if (typeof compiled.pack !== "undefined") {
+                packs[importPath] = compiled.pack;
+            }
+        }
+    );
+
+    return { packs, errors, watchFiles, watchDirs };
+}
+
+/**
+ * Every entrypoint is expected to correspond to an entry in the manifest so that `createManifest` can point it at the bundled output. The manifest may list either the entrypoint itself, like `scripts/main.ts`, or what it's bundled to, like `scripts/main.js`.
+ */
+export function getUnlistedEntrypointWarnings(
+    pluginData: PluginData,
+    manifestJSON: ManifestJSON,
+    inputsToOutputs: InputsToOutputs
+): PartialMessage[] {
+    const manifestFile = `${pluginData.packageType}.json`;
+
+    const listed = (manifestKeys: string[]) =>
+        new Set(
+            manifestKeys.flatMap((manifestKey) => {
+                const importArr = manifestJSON[manifestKey];
+
+                return Array.isArray(importArr) ? importArr.map(String) : [];
+            })
+        );
+
+    const listedJS = listed(["esmodules", "scripts"]);
+    const listedCSS = listed(["styles"]);
+
+    const getWarning = (
+        entry: string,
+        manifestKeys: string
+    ): PartialMessage => ({
+        pluginName: pluginData.pluginName,
+        text: `The entrypoint ${JSON.stringify(
+            entry
+        )} is not listed in ${JSON.stringify(manifestFile)}`,
+        detail: `Add ${JSON.stringify(
+            entry
+        )} to ${manifestKeys} so that Foundry loads its output.`,
+    });
+
+    const isListed = (listedPaths: Set<string>, entry: string) => {
+        const [outputPath] = inputsToOutputs[entry] ?? [];
+
+        return (
+            listedPaths.has(entry) ||
+            (typeof outputPath !== "undefined" && listedPaths.has(outputPath))
+        );
+    };
+
+    return [
+        ...pluginData.entrypoints.js
+            .filter((entry) => !isListed(listedJS, entry))
+            .map((entry) => getWarning(entry, `"esmodules" or "scripts"`)),
+        ...pluginData.entrypoints.css
+            .filter((entry) => !isListed(listedCSS, entry))
+            .map((entry) => getWarning(entry, `"styles"`)),
+    ];
+}
+
 type ManifestData = {
     errors: OnStartResult["errors"];
     manifestJSON: Record<string, unknown>;
     localImports: string[];
 };
 
-async function getManifest(
+/** Resolves imports from the manifest, normally this is `build.resolve`. */
+export type ManifestResolve = PluginBuild["resolve"];
+
+export async function getManifest(
     pluginData: PluginData,
-    build: PluginBuild
+    resolve: ManifestResolve
 ): Promise<ManifestData> {
     const manifestFile = `${pluginData.packageType}.json`;
     const manifestPath = path.join(pluginData.projectRoot, manifestFile);
 
+    // Locations are given relative to the working directory like ESBuild's own messages.
+    const messageFile = normalize(
+        nativePath.relative(process.cwd(), manifestPath)
+    );
+
     const manifestContents = await fs.promises.readFile(manifestPath, "utf-8");
-    const manifestJSON = JSON.parse(manifestContents);
 
-    await validateManifest(pluginData, manifestJSON);
+    let manifestJSON;
+    try {
+        manifestJSON = JSON.parse(manifestContents);
+    } catch (e) {
+        return {
+            errors: [
+                getJSONParseError(
+                    pluginData.pluginName,
+                    manifestContents,
+                    messageFile,
+                    e,
+                    manifestFile
+                ),
+            ],
+            manifestJSON: {},
+            localImports: [],
+        };
+    }
+
+    const errors = await validateManifest(
+        pluginData,
+        manifestJSON,
+        getJSONLocator(manifestContents, messageFile)
+    );
+    if (errors.length !== 0) {
+        return { errors, manifestJSON, localImports: [] };
+    }
 
-    return await normalizeManifest(pluginData, build, manifestJSON);
+    return await normalizeManifest(pluginData, resolve, manifestJSON);
 }
 
 type ManifestJSON = Record<string, unknown>;
@@ -89,7 +327,7 @@ type NormalizeManifestResult = {
 
 async function normalizeManifest(
     pluginData: PluginData,
-    build: PluginBuild,
+    resolve: ManifestResolve,
     manifestJSON: ManifestJSON
 ): Promise<NormalizeManifestResult> {
     const { log } = pluginData;
@@ -115,7 +353,12 @@ async function normalizeManifest(
             path: resolvedPath,
             errors: innerErrors,
             localImport,
-        } = await resolveManifestImport(pluginData, build, importPath, keyPath);
+        } = await resolveManifestImport(
+            pluginData,
+            resolve,
+            importPath,
+            keyPath
+        );
         if (innerErrors.length !== 0) {
             errors.push(...innerErrors);
         }
@@ -137,7 +380,7 @@ type ForEachCallback = (
     importPath: string,
     manifestKey: string,
     index: number,
-    isPathObj: boolean
+    pathKey: string | undefined
 ) => MaybeAsync<unknown | undefined>;
 
 type MaybeAsync<T> = T | Promise<T>;
@@ -155,7 +398,7 @@ type UpdateManifestCallback = (
 ) => ReturnType<ForEachCallback>;
 
 /**
- * @param callback - Returning undefined deletes the item. Returning another value will replace its path.
+ * @param callback - Returning undefined deletes the item, or only its path if the item is an object. Returning another value will replace its path.
  */
 async function updateManifestImports(
     manifestJSON: ManifestJSON,
@@ -163,18 +406,23 @@ async function updateManifestImports(
 ) {
     await forEachManifestImports(
         manifestJSON,
-        async (keyPath, importPath, manifestKey, i, isPathObj) => {
+        async (keyPath, importPath, manifestKey, i, pathKey) => {
             const importArr = manifestJSON[manifestKey] as unknown[];
             const resultPath = await callback(keyPath, importPath);
 
-            if (typeof resultPath === "undefined") {
-                delete importArr[i];
+            if (typeof pathKey !== "undefined") {
+                const importObj = importArr[i] as Record<string, unknown>;
+                if (typeof resultPath === "undefined") {
+                    delete importObj[pathKey];
+                } else {
+                    importObj[pathKey] = resultPath;
+                }
 
                 return;
             }
 
-            if (isPathObj) {
-                (importArr[i] as { path: unknown }).path = resultPath;
+            if (typeof resultPath === "undefined") {
+                delete importArr[i];
             } else {
                 importArr[i] = resultPath;
             }
@@ -182,39 +430,61 @@ async function updateManifestImports(
     );
 }
 
-const manifestImports: { [manifestKey: string]: boolean } = {
-    scripts: false,
-    esmodules: false,
-    styles: false,
-    packs: true,
-    languages: true,
+// Arrays of paths have no path keys while arrays of objects list the keys of each object that hold paths.
+const manifestImports: { [manifestKey: string]: string[] | undefined } = {
+    scripts: undefined,
+    esmodules: undefined,
+    styles: undefined,
+    packs: ["path"],
+    languages: ["path"],
+    media: ["url", "thumbnail"],
 };
 
-async function forEachManifestImports(
+// Some paths such as those in media may be remote, there's nothing to resolve or copy for these.
+const urlRegex = /^[a-z][a-z\d+.-]*:\/\//i;
+
+export async function forEachManifestImports(
     manifestJSON: ManifestJSON,
     callback: ForEachCallback
 ) {
-    for (const [manifestKey, isPathObj] of Object.entries(manifestImports)) {
-        const importArr = manifestJSON[manifestKey] as unknown[];
+    for (const [manifestKey, pathKeys] of Object.entries(manifestImports)) {
+        const importArr = manifestJSON[manifestKey];
+        if (!Array.isArray(importArr)) {
+            continue;
+        }
+
         for (const [i, importsItem] of Object.entries(importArr)) {
-            const importPath = isPathObj
-                ? (importsItem as { path?: string } | undefined)?.path
-                : (importsItem as string | undefined);
+            const itemPaths: [string | undefined, unknown][] =
+                typeof pathKeys === "undefined"
+                    ? [[undefined, importsItem]]
+                    : pathKeys.map((pathKey) => [
+                          pathKey,
+                          (
+                              importsItem as Record<string, unknown> | undefined
+                          )?.[pathKey],
+                      ]);
+
+            for (const [pathKey, importPath] of itemPaths) {
+                if (
+                    typeof importPath !== "string" ||
+                    urlRegex.test(importPath)
+                ) {
+                    continue;
+                }
 
-            if (typeof importPath === "undefined") {
-                continue;
+                // Gets the way the property would be accessed most directly as a string like `scripts[2]` or `languages[4].path`
+                const keyPath = `${manifestKey}[${i}]${
+                    typeof pathKey === "undefined" ? "" : `.${pathKey}`
+                }`;
+
+                await callback(
+                    keyPath,
+                    importPath,
+                    manifestKey,
+                    parseInt(i, 10),
+                    pathKey
+                );
             }
-
-            // Gets the way the property would be accessed most directly as a string like `scripts[2]` or `languages[4].path`
-            const keyPath = `${manifestKey}[${i}]${isPathObj ? `.path` : ""}`;
-
-            await callback(
-                keyPath,
-                importPath,
-                manifestKey,
-                parseInt(i, 10),
-                isPathObj
-            );
         }
     }
 }
@@ -222,9 +492,9 @@ async function forEachManifestImports(
 /**
  * Imports from a manifest are special, they first attempt to import relative to the project and then against `../scripts`. This happens even outside of esmodules and scripts but NOT within packs.
  */
-async function resolveManifestImport(
+export async function resolveManifestImport(
     pluginData: PluginData,
-    build: PluginBuild,
+    resolve: ManifestResolve,
     manifestImport: string,
     keyPath: string
 ): Promise<ResolveResult & { localImport: boolean }> {
@@ -234,25 +504,64 @@ async function resolveManifestImport(
 
     const normalizedPath = normalize(manifestImport);
 
+    // A world's packs are its own data, written by Foundry as the world is played, so they're left exactly as they are.
+    if (pluginData.packageType === "world" && keyPath.startsWith("packs")) {
+        return {
+            errors: [],
+            warnings: [],
+            path: normalizedPath,
+            external: true,
+            sideEffects: false,
+            namespace: "file",
+            suffix: "",
+            pluginData: undefined,
+            localImport: false,
+        };
+    }
+
+    // Pack directories are either LevelDB databases, which Foundry uses since v11, or source directories to compile. ESBuild won't resolve either.
+    if (
+        keyPath.startsWith("packs") &&
+        (await isDirectory(path.join(pluginData.projectRoot, normalizedPath)))
+    ) {
+        return {
+            errors: [],
+            warnings: [],
+            path: normalizedPath,
+            external: false,
+            sideEffects: false,
+            namespace: "file",
+            suffix: "",
+            pluginData: undefined,
+            localImport: true,
+        };
+    }
+
     // Paths won't be resolved against the filesystem unless `./` is at the beginning.
     // However normalization removes `./` at the beginning and imports aren't required to have them, so we add it back here.
     // See https://esbuild.github.io/plugins/#resolve for further information.
 
-    const relativeImportData = await build.resolve(`./${normalizedPath}`, {
+    const relativeImportData = await resolve(`./${normalizedPath}`, {
         resolveDir: pluginData.projectRoot,
     });
 
     if (relativeImportData.errors.length === 0) {
+        // ESBuild resolves a path to an output like `scripts/main.js` to its source `scripts/main.ts`, which is what's mapped to the bundled output.
         return {
             ...relativeImportData,
             localImport: true,
-            path: normalizedPath,
+            path: normalize(
+                nativePath.relative(
+                    pluginData.projectRoot,
+                    relativeImportData.path
+                )
+            ),
         };
     }
 
     log("Not relative to project root", pluginData.projectRoot);
 
-    const scriptsImportData = await build.resolve(
+    const scriptsImportData = await resolve(
         path.join("../../scripts", manifestImport),
         {
             resolveDir: pluginData.projectRoot,
@@ -311,12 +620,83 @@ async function resolveManifestImport(
     };
 }
 
+async function isDirectory(p: string): Promise<boolean> {
+    return await fs.promises.stat(p).then(
+        (stats) => stats.isDirectory(),
+        () => false
+    );
+}
+
+/**
+ * Resolves an import the way `build.resolve` does. ESBuild does not allow `build.resolve` to be called until setup has completed so to read the manifest during setup a build without entrypoints is run whose only purpose is to resolve the import once it starts. The options that affect resolving are passed on to it.
+ */
+export async function resolveDuringSetup(
+    build: PluginBuild,
+    importPath: string,
+    options: ResolveOptions = {}
+): Promise<ResolveResult> {
+    // Only the options that affect resolving are passed on, unset ones are left out rather than given as undefined.
+    const resolveKeys = [
+        "absWorkingDir",
+        "conditions",
+        "mainFields",
+        "nodePaths",
+        "platform",
+        "preserveSymlinks",
+        "resolveExtensions",
+        "tsconfig",
+    ] as const;
+    const resolveOptions: BuildOptions = Object.fromEntries(
+        resolveKeys
+            .map((key) => [key, build.initialOptions[key]])
+            .filter(([, value]) => typeof value !== "undefined")
+    );
+
+    let result: ResolveResult | undefined;
+    await build.esbuild.build({
+        ...resolveOptions,
+        entryPoints: [],
+        write: false,
+        logLevel: "silent",
+        plugins: [
+            {
+                name: "foundryResolveDuringSetup",
+                setup(resolveBuild) {
+                    resolveBuild.onStart(async () => {
+                        result = await resolveBuild.resolve(
+                            importPath,
+                            options
+                        );
+                    });
+                },
+            },
+        ],
+    });
+
+    if (typeof result === "undefined") {
+        // The build always starts so this shouldn't happen.
+        throw new Error(
+            `Could not resolve ${JSON.stringify(
+                importPath
+            )} during setup. Please report this error.`
+        );
+    }
+
+    return result;
+}
+
 export async function createManifest(
     pluginData: PluginData,
-    _build: PluginBuild,
+    build: PluginBuild,
     result: BuildResult
 ): Promise<void> {
-    const { manifestJSON, localImports } = pluginData.cachedManifest ?? {};
+    // The errors have already been reported, for example an invalid manifest, so there's nothing to output.
+    if (result.errors.length !== 0) {
+        return;
+    }
+
+    const { manifestJSON, localImports, packs } =
+        pluginData.cachedManifest ?? {};
 
     if (typeof manifestJSON === "undefined") {
         // This shouldn't happen if the prior steps have run correctly.
@@ -329,6 +709,12 @@ export async function createManifest(
 
     const inputsToOutputs = getInputsToOutputs(pluginData, metafile);
 
+    await logWarnings(
+        build,
+        result,
+        getUnlistedEntrypointWarnings(pluginData, manifestJSON, inputsToOutputs)
+    );
+
     const outputs: Record<string, string> = {};
     const localImportsSet = new Set(localImports);
 
@@ -338,12 +724,38 @@ export async function createManifest(
 
     await forEachManifestImports(
         finalManifest,
-        async (_keyPath, importPath, manifestKey, index, isPathObj) => {
+        async (_keyPath, importPath, manifestKey, index, pathKey) => {
             const importArr = finalManifest[manifestKey] as unknown[];
             const esbuildOutput = inputsToOutputs[importPath];
 
             // ESBuild has no info for us.
             if (typeof esbuildOutput === "undefined") {
+                const pack = packs?.[importPath];
+                if (typeof pack !== "undefined") {
+                    const packOutputPath = nativePath.join(
+                        pluginData.outdir,
+                        pack.outputPath
+                    );
+
+                    await fs.promises.mkdir(
+                        nativePath.dirname(packOutputPath),
+                        {
+                            recursive: true,
+                        }
+                    );
+                    await fs.promises.writeFile(
+                        packOutputPath,
+                        pack.contents,
+                        "utf-8"
+                    );
+
+                    (importArr[index] as Record<string, unknown>)[
+                        pathKey as string
+                    ] = pack.outputPath;
+
+                    return;
+                }
+
                 if (localImportsSet.has(importPath)) {
                     const outDir = nativePath.parse(
                         nativePath.join(pluginData.outdir, importPath)
@@ -351,9 +763,11 @@ export async function createManifest(
 
                     await fs.promises.mkdir(outDir, { recursive: true });
 
-                    await fs.promises.copyFile(
+                    // Since v11 packs are directories so these are copied recursively.
+                    await fs.promises.cp(
                         nativePath.join(pluginData.projectRoot, importPath),
-                        nativePath.join(pluginData.outdir, importPath)
+                        nativePath.join(pluginData.outdir, importPath),
+                        { recursive: true }
                     );
                 }
 
@@ -364,7 +778,7 @@ export async function createManifest(
             const otherImport = outputs[outputPath];
 
             if (typeof otherImport !== "undefined") {
-                if (isPathObj) {
+                if (typeof pathKey !== "undefined") {
                     throw new Error(
                         `Found two imports ${JSON.stringify(
                             otherImport
@@ -378,11 +792,14 @@ export async function createManifest(
 
                 // Delete the current entry because it's been bundled with an existing entrypoint.
                 delete importArr[index];
+
+                return;
             }
 
             // Update the path.
-            if (isPathObj) {
-                (importArr[index] as { path: unknown }).path = outputPath;
+            if (typeof pathKey !== "undefined") {
+                (importArr[index] as Record<string, unknown>)[pathKey] =
+                    outputPath;
             } else {
                 importArr[index] = outputPath;
             }
@@ -391,6 +808,14 @@ export async function createManifest(
         }
     );
 
+    // Deleting entries leaves holes which would otherwise be written as null.
+    for (const manifestKey of Object.keys(manifestImports)) {
+        const importArr = finalManifest[manifestKey];
+        if (Array.isArray(importArr)) {
+            finalManifest[manifestKey] = importArr.filter(() => true);
+        }
+    }
+
     const outputPath = nativePath.join(
         pluginData.outdir,
         `${pluginData.packageType}.json`
@@ -402,7 +827,8 @@ export async function createManifest(
         "utf-8"
     );
 }
-type InputsToOutputs = {
+
+export type InputsToOutputs = {
     [inputPath: string]: [
         outputPath: string,
         outputData: Metafile["outputs"] extends Record<string, infer V>
@@ -411,7 +837,7 @@ type InputsToOutputs = {
     ];
 };
 
-function getInputsToOutputs(
+export function getInputsToOutputs(
     pluginData: PluginData,
     metafile?: Metafile
 ): InputsToOutputs {
@@ -420,6 +846,9 @@ function getInputsToOutputs(
         return inputsToOutputs;
     }
 
+    // Entrypoints are mapped separately because an entrypoint may also be imported by another entrypoint, making it an input of both outputs.
+    const entrypointsToOutputs: InputsToOutputs = {};
+
     // Inputs and outputs are prefixed with the source directory and output root correspondingly while our logic doesn't want it so we remove it here.
     const relativeProject = path.relative(
         path.resolve("."),
@@ -429,6 +858,24 @@ function getInputsToOutputs(
     for (const [outputPath, output] of Object.entries(metafile.outputs)) {
         const outputRelative = path.relative(relativeOutput, outputPath);
 
+        if (typeof output.entryPoint !== "undefined") {
+            const entryRelative = path.relative(
+                relativeProject,
+                output.entryPoint
+            );
+
+            // A JS entrypoint importing CSS produces a CSS output as well, that CSS output must not replace the JS one.
+            const expectedExtension = pluginData.entrypoints.css.includes(
+                entryRelative
+            )
+                ? ".css"
+                : ".js";
+
+            if (path.extname(outputRelative) === expectedExtension) {
+                entrypointsToOutputs[entryRelative] = [outputRelative, output];
+            }
+        }
+
         for (const inputPath of Object.keys(output.inputs)) {
             const sourceRelative = path.relative(relativeProject, inputPath);
 
@@ -436,5 +883,5 @@ function getInputsToOutputs(
         }
     }
 
-    return inputsToOutputs;
+    return { ...inputsToOutputs, ...entrypointsToOutputs };
 }
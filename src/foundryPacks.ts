@@ -0,0 +1,252 @@
+import crypto from "crypto";
+import fs from "fs";
+import { load, YAMLException } from "js-yaml";
+import nativePath from "path";
+import type { Location, PartialMessage } from "esbuild";
+
+import type { PluginData } from "./pluginData";
+import { normalize } from "./onResolve";
+import { getFilesRecursively } from "./files";
+import {
+    getJSONLocator,
+    getJSONParseError,
+    getTextLocation,
+} from "./jsonLocations";
+
+const { posix: path } = nativePath;
+
+export type CompiledPack = {
+    /** The path of the pack in outdir, relative to it. This replaces the source directory in the output manifest. */
+    outputPath: string;
+
+    /** The NeDB database, one document per line. */
+    contents: string;
+};
+
+type CompilePackResult = {
+    pack?: CompiledPack;
+    errors: PartialMessage[];
+
+    /** Every document file in the pack, these are watched so changing a document rebuilds the pack. They're given even when the pack fails to compile so that fixing it rebuilds. */
+    watchFiles: string[];
+
+    /** The source directory and every directory within it, these are watched so adding or removing documents rebuilds the pack. */
+    watchDirs: string[];
+};
+
+export const documentExtensions = new Set([".json", ".yml", ".yaml"]);
+
+// Foundry generates ids from the same alphabet in `randomID`.
+const idCharacters =
+    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+
+/**
+ * A pack directory is either a LevelDB database, which Foundry creates since v11, or a source directory holding a JSON or YAML file per document. LevelDB databases always have a `CURRENT` file.
+ *
+ * @param packPath - The absolute path of the pack.
+ */
+export async function isPackSource(packPath: string): Promise<boolean> {
+    const isDirectory = await fs.promises.stat(packPath).then(
+        (stats) => stats.isDirectory(),
+        () => false
+    );
+    if (!isDirectory) {
+        return false;
+    }
+
+    return await fs.promises.access(nativePath.join(packPath, "CURRENT")).then(
+        () => false,
+        () => true
+    );
+}
+
+/**
+ * Compiles a source directory of documents into a NeDB pack. Documents without an `_id` are given one derived from their path within the pack so that it stays the same across builds.
+ *
+ * @param packPath - The source directory relative to the project root as written in the manifest.
+ */
+export async function compilePack(
+    pluginData: PluginData,
+    packPath: string
+): Promise<CompilePackResult> {
+    const { log, pluginName } = pluginData;
+
+    const sourceDir = path.join(pluginData.projectRoot, packPath);
+
+    const watchDirs: string[] = [];
+    const documentFiles = (
+        await getFilesRecursively(sourceDir, watchDirs)
+    ).filter((file) => documentExtensions.has(path.extname(file)));
+
+    log(
+        `Compiling the pack ${JSON.stringify(packPath)} from ${
+            documentFiles.length
+        } documents.`
+    );
+
+    const errors: PartialMessage[] = [];
+    const lines: string[] = [];
+    const ids = new Map<string, Partial<Location>>();
+
+    for (const documentFile of documentFiles) {
+        const text = await fs.promises.readFile(documentFile, "utf-8");
+
+        // Locations are given relative to the working directory like ESBuild's own messages.
+        const messageFile = normalize(
+            nativePath.relative(process.cwd(), documentFile)
+        );
+
+        const parsed = parseDocument(pluginData, text, messageFile);
+        if ("error" in parsed) {
+            errors.push(parsed.error);
+            continue;
+        }
+
+        const { document } = parsed;
+
+        if (
+            typeof document !== "object" ||
+            document === null ||
+            Array.isArray(document)
+        ) {
+            errors.push({
+                pluginName,
+                text: `The pack document ${JSON.stringify(
+                    messageFile
+                )} must contain a single object`,
+                location: getTextLocation(text, messageFile, 0),
+            });
+            continue;
+        }
+
+        const {
+            _id: id = getStableId(path.relative(sourceDir, documentFile)),
+        } = document as Record<string, unknown>;
+
+        const idLocation = locateId(text, messageFile);
+
+        if (typeof id !== "string") {
+            errors.push({
+                pluginName,
+                text: `The "_id" of the pack document ${JSON.stringify(
+                    messageFile
+                )} must be a string`,
+                location: idLocation,
+            });
+            continue;
+        }
+
+        const otherLocation = ids.get(id);
+        if (typeof otherLocation !== "undefined") {
+            errors.push({
+                pluginName,
+                text: `The pack ${JSON.stringify(
+                    packPath
+                )} has two documents with the "_id" ${JSON.stringify(id)}`,
+                location: idLocation,
+                notes: [
+                    {
+                        text: "The other document is here:",
+                        location: otherLocation,
+                    },
+                ],
+            });
+            continue;
+        }
+
+        ids.set(id, idLocation);
+
+        // The `_id` is written first to match the databases Foundry writes.
+        lines.push(JSON.stringify({ _id: id, ...document }));
+    }
+
+    if (errors.length !== 0) {
+        return { errors, watchFiles: documentFiles, watchDirs };
+    }
+
+    return {
+        pack: {
+            outputPath: getPackOutputPath(packPath),
+            contents: lines.map((line) => `${line}\n`).join(""),
+        },
+        errors,
+        watchFiles: documentFiles,
+        watchDirs,
+    };
+}
+
+/**
+ * The source directory `packs/items` is compiled to `packs/items.db`.
+ */
+function getPackOutputPath(packPath: string): string {
+    const normalizedPath = normalize(packPath).replace(/\/$/, "");
+
+    return path.extname(normalizedPath) === ".db"
+        ? normalizedPath
+        : `${normalizedPath}.db`;
+}
+
+function parseDocument(
+    pluginData: PluginData,
+    text: string,
+    messageFile: string
+): { document: unknown } | { error: PartialMessage } {
+    const { pluginName } = pluginData;
+
+    if (path.extname(messageFile) === ".json") {
+        try {
+            return { document: JSON.parse(text) };
+        } catch (e) {
+            return {
+                error: getJSONParseError(pluginName, text, messageFile, e),
+            };
+        }
+    }
+
+    try {
+        return { document: load(text, { filename: messageFile }) };
+    } catch (e) {
+        if (!(e instanceof YAMLException)) {
+            throw e;
+        }
+
+        return {
+            error: {
+                pluginName,
+                text: `Could not parse ${JSON.stringify(messageFile)}: ${
+                    e.reason
+                }`,
+                location: getTextLocation(text, messageFile, e.mark.position),
+            },
+        };
+    }
+}
+
+/**
+ * Finds the `_id` property of a document, or the start of the document if it has none.
+ */
+function locateId(text: string, messageFile: string): Partial<Location> {
+    if (path.extname(messageFile) === ".json") {
+        return getJSONLocator(text, messageFile)(["_id"]);
+    }
+
+    // Only a top level `_id` is at the start of a line in YAML.
+    const match = /^_id\s*:/m.exec(text);
+
+    return getTextLocation(text, messageFile, match?.index ?? 0);
+}
+
+/**
+ * Derives an id in the format Foundry uses, 16 alphanumeric characters, from the path of the document within its pack.
+ */
+export function getStableId(documentPath: string): string {
+    const hash = crypto
+        .createHash("sha256")
+        .update(normalize(documentPath))
+        .digest();
+
+    return Array.from(
+        hash.subarray(0, 16),
+        (byte) => idCharacters[byte % idCharacters.length]
+    ).join("");
+}
@@ -1,3 +1,27 @@
+import fs from "fs";
+import nativePath from "path";
+import type { PartialMessage } from "esbuild";
+
+import type { FoundryPaths } from "./pluginData";
+import {
+    getFoundryLayout,
+    getFoundryRootDirEntries,
+    getFoundryRootDirs,
+    getFoundryVersion,
+    type EntryInfo,
+    type FoundryLayoutInfo,
+    type FoundryRoot,
+} from "./foundryEntries";
+import { getIndexedFiles, readFoundryIndex } from "./foundryIndex";
+import { normalize } from "./onResolve";
+import {
+    getFingerprints,
+    hasChanged,
+    type Fingerprints,
+} from "./cacheInvalidation";
+
+const { posix: path } = nativePath;
+
 // For the purposes of explanation the POSIX path seperator `/` is used but both seperators are accounted for.
 //
 // Path traversing up a directory can be Foundry paths. Given how simple that is stated to be you might expect a simple Regex to accompany it. Unfortunately there would be false negatives if the Regex simply check for a path starting with `../`, primarily due to fact that unnormalized paths are more complicated.
@@ -15,4 +39,356 @@
 export const traversesUpDirectoryRegex =
     /^(((\.[/\\]+)|([^/\\]+[/\\]+)+?\.\.[/\\]+)*\.\.([/\\]+|$))/;
 
-export class FoundryResolver {}
+/**
+ * Answers whether a path relative to Foundry's root exists on a Foundry server.
+ * The root entries from `getFoundryRootDirEntries` are indexed once and anything nested within them is checked against the file system when asked for.
+ * Without an install an index made by `createFoundryIndex` can be given instead, it lists every file so nothing has to be checked against the file system.
+ */
+export class FoundryResolver {
+    private readonly foundryPaths: FoundryPaths | undefined;
+
+    private indexedEntries: Promise<Map<string, EntryInfo[]>> | undefined;
+
+    private indexFingerprints: Fingerprints = {};
+
+    private layoutInfo: FoundryLayoutInfo | undefined;
+
+    private entryWarnings: PartialMessage[] = [];
+
+    private readonly additionalFiles: Set<string>;
+
+    private readonly foundryIndex: string | undefined;
+
+    private indexedFiles: Promise<IndexedFiles> | undefined;
+
+    /**
+     * @param foundryIndex - The path to a Foundry index, used when there are no Foundry paths.
+     */
+    constructor(
+        foundryPaths: FoundryPaths | undefined,
+        additionalFiles: string[] = [],
+        foundryIndex: string | undefined = undefined
+    ) {
+        this.foundryPaths = foundryPaths;
+        this.additionalFiles = new Set(additionalFiles.map(normalize));
+        this.foundryIndex =
+            typeof foundryPaths === "undefined" ? foundryIndex : undefined;
+    }
+
+    /** Whether there is a Foundry install or index to check imports against. In CI there may be neither. */
+    get canResolve(): boolean {
+        return (
+            typeof this.foundryPaths !== "undefined" ||
+            typeof this.foundryIndex !== "undefined"
+        );
+    }
+
+    /** Whether the files themselves can be read, an index only lists them. */
+    get hasSources(): boolean {
+        return typeof this.foundryPaths !== "undefined";
+    }
+
+    /**
+     * @returns The version of the Foundry install or the install the index was made from, undefined if it's not known.
+     */
+    async getVersion(): Promise<string | undefined> {
+        if (typeof this.foundryIndex !== "undefined") {
+            return (await this.getIndexedFiles()).version;
+        }
+
+        if (typeof this.foundryPaths !== "undefined") {
+            return await getFoundryVersion(this.foundryPaths.appPath);
+        }
+
+        return undefined;
+    }
+
+    /**
+     * @returns What's unexpected about the files of the Foundry install, indexing it if it hasn't been yet.
+     */
+    async getEntryWarnings(): Promise<PartialMessage[]> {
+        await this.getIndexedEntries();
+
+        return this.entryWarnings;
+    }
+
+    /**
+     * @param foundryRootRelative - A path relative to Foundry's root, e.g. `scripts/foundry.js` or `modules/foo/bar.js`.
+     * @returns Whether the path exists within the Foundry install.
+     */
+    async exists(foundryRootRelative: string): Promise<boolean> {
+        const foundryPath = normalize(foundryRootRelative);
+        if (this.additionalFiles.has(foundryPath)) {
+            return true;
+        }
+
+        if (typeof this.foundryIndex !== "undefined") {
+            return (await this.getIndexedFiles()).roots.has(foundryPath);
+        }
+
+        return typeof (await this.locate(foundryPath)) !== "undefined";
+    }
+
+    /**
+     * @param foundryRootRelative - A path relative to Foundry's root.
+     * @returns Where the path is on disk or undefined if it doesn't exist in the Foundry install.
+     */
+    async getSourcePath(
+        foundryRootRelative: string
+    ): Promise<string | undefined> {
+        const located = await this.locate(normalize(foundryRootRelative));
+
+        return located?.sourcePath;
+    }
+
+    /**
+     * Gets the files and directories in the Foundry install that decide whether a path exists. If the path exists this is the file itself, otherwise it's the closest existing directories it could be added to.
+     *
+     * @param foundryRootRelative - A path relative to Foundry's root.
+     */
+    async getWatchPaths(
+        foundryRootRelative: string
+    ): Promise<{ watchFiles: string[]; watchDirs: string[] }> {
+        const foundryPath = normalize(foundryRootRelative);
+
+        // Whether anything exists only changes along with the index.
+        if (typeof this.foundryIndex !== "undefined") {
+            return { watchFiles: [this.foundryIndex], watchDirs: [] };
+        }
+
+        const located = await this.locate(foundryPath);
+        if (typeof located !== "undefined") {
+            return { watchFiles: [located.sourcePath], watchDirs: [] };
+        }
+
+        const watchDirs = [];
+        for (const { entry, sourcePath } of await this.getCandidates(
+            foundryPath
+        )) {
+            if (entry.type === "directory") {
+                watchDirs.push(
+                    await getClosestExistingDir(sourcePath, entry.sourcePath)
+                );
+            }
+        }
+
+        // Without any candidates the path could only come to exist as a new root entry.
+        if (
+            watchDirs.length === 0 &&
+            typeof this.foundryPaths !== "undefined" &&
+            typeof this.layoutInfo !== "undefined"
+        ) {
+            watchDirs.push(
+                ...getFoundryRootDirs(this.foundryPaths, this.layoutInfo.layout)
+            );
+        }
+
+        return { watchFiles: [], watchDirs };
+    }
+
+    /**
+     * @param foundryRootRelative - A path relative to Foundry's root.
+     * @returns The Foundry folder the path is served from or undefined if it doesn't exist in the Foundry install.
+     */
+    async getRoot(
+        foundryRootRelative: string
+    ): Promise<FoundryRoot | undefined> {
+        const foundryPath = normalize(foundryRootRelative);
+
+        if (typeof this.foundryIndex !== "undefined") {
+            return (await this.getIndexedFiles()).roots.get(foundryPath);
+        }
+
+        const located = await this.locate(foundryPath);
+
+        return located?.entry.root;
+    }
+
+    /** Forgets the indexed root entries, or the Foundry index, so they're read again the next time they're needed. */
+    clear(): void {
+        this.indexedEntries = undefined;
+        this.indexedFiles = undefined;
+    }
+
+    /**
+     * Forgets the indexed root entries if any of the directories they were read from have changed.
+     *
+     * @returns Whether the index was cleared.
+     */
+    async invalidate(): Promise<boolean> {
+        const rootDirs = Object.keys(this.indexFingerprints);
+        if (
+            (typeof this.indexedEntries === "undefined" &&
+                typeof this.indexedFiles === "undefined") ||
+            rootDirs.length === 0
+        ) {
+            return false;
+        }
+
+        const current = await getFingerprints(rootDirs);
+        if (!hasChanged(this.indexFingerprints, current)) {
+            return false;
+        }
+
+        this.clear();
+
+        return true;
+    }
+
+    /**
+     * @returns The root entry containing the path along with the path's location on disk if the path exists.
+     */
+    private async locate(foundryPath: string): Promise<Located | undefined> {
+        for (const candidate of await this.getCandidates(foundryPath)) {
+            const { entry, sourcePath } = candidate;
+            if (sourcePath === entry.sourcePath) {
+                return candidate;
+            }
+
+            if (entry.type === "directory" && (await pathExists(sourcePath))) {
+                return candidate;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Entries can be nested within each other, for example node_modules files are put within `scripts` which is also a public directory. Every entry whose destination is a prefix of the path is a candidate, the most specific entries come first.
+     */
+    private async getCandidates(foundryPath: string): Promise<Located[]> {
+        const entries = await this.getIndexedEntries();
+
+        const candidates = [];
+        const segments = foundryPath.split("/");
+        for (let i = segments.length; i > 0; i--) {
+            const destinationPath = segments.slice(0, i).join("/");
+            const rest = segments.slice(i).join("/");
+
+            for (const entry of entries.get(destinationPath) ?? []) {
+                candidates.push({
+                    entry,
+                    sourcePath:
+                        rest === ""
+                            ? entry.sourcePath
+                            : path.join(entry.sourcePath, rest),
+                });
+            }
+        }
+
+        return candidates;
+    }
+
+    private async getIndexedEntries(): Promise<Map<string, EntryInfo[]>> {
+        this.indexedEntries ??= this.indexEntries();
+
+        return await this.indexedEntries;
+    }
+
+    private async indexEntries(): Promise<Map<string, EntryInfo[]>> {
+        const indexedEntries = new Map<string, EntryInfo[]>();
+        if (typeof this.foundryPaths === "undefined") {
+            return indexedEntries;
+        }
+
+        // The version decides which files Foundry serves, see `getFoundryLayout`.
+        this.layoutInfo = getFoundryLayout(await this.getVersion());
+
+        this.indexFingerprints = await getFingerprints(
+            getFoundryRootDirs(this.foundryPaths, this.layoutInfo.layout)
+        );
+
+        this.entryWarnings = [];
+        const entries = await getFoundryRootDirEntries(
+            this.foundryPaths,
+            this.layoutInfo,
+            this.entryWarnings
+        );
+        for (const entry of entries) {
+            const sameDestination = indexedEntries.get(entry.destinationPath);
+            if (typeof sameDestination === "undefined") {
+                indexedEntries.set(entry.destinationPath, [entry]);
+            } else {
+                sameDestination.push(entry);
+            }
+        }
+
+        return indexedEntries;
+    }
+
+    private async getIndexedFiles(): Promise<IndexedFiles> {
+        this.indexedFiles ??= this.indexFiles();
+
+        return await this.indexedFiles;
+    }
+
+    /**
+     * Indexes every file in the Foundry index along with the directories containing them, directories can be imported too, for example `modules/other`.
+     */
+    private async indexFiles(): Promise<IndexedFiles> {
+        const roots = new Map<string, FoundryRoot>();
+        if (typeof this.foundryIndex === "undefined") {
+            return { version: undefined, roots };
+        }
+
+        this.indexFingerprints = await getFingerprints([this.foundryIndex]);
+
+        const { version, app, data } = await readFoundryIndex(
+            this.foundryIndex
+        );
+
+        const rootFiles = [
+            ["app", app],
+            ["data", data],
+        ] as const;
+        for (const [root, directories] of rootFiles) {
+            for (const file of getIndexedFiles(directories)) {
+                const segments = file.split("/");
+                for (let i = segments.length; i > 0; i--) {
+                    roots.set(segments.slice(0, i).join("/"), root);
+                }
+            }
+        }
+
+        return { version, roots };
+    }
+}
+
+type Located = { entry: EntryInfo; sourcePath: string };
+
+type IndexedFiles = {
+    version: string | undefined;
+
+    /** Every file and directory in the index mapped to the Foundry folder it's served from. */
+    roots: Map<string, FoundryRoot>;
+};
+
+/**
+ * @param p - The path to start from.
+ * @param stopAt - A directory known to exist that contains `p`.
+ */
+async function getClosestExistingDir(
+    p: string,
+    stopAt: string
+): Promise<string> {
+    let dir = p;
+    while (dir !== stopAt && dir.startsWith(stopAt)) {
+        if (await pathExists(dir)) {
+            return dir;
+        }
+
+        dir = path.dirname(dir);
+    }
+
+    return stopAt;
+}
+
+async function pathExists(p: string): Promise<boolean> {
+    try {
+        await fs.promises.access(p);
+
+        return true;
+    } catch {
+        return false;
+    }
+}
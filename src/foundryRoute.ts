@@ -0,0 +1,85 @@
+import type {
+    OnResolveArgs,
+    OnResolveResult,
+    OnLoadArgs,
+    OnLoadResult,
+} from "esbuild";
+import { posix as path } from "path";
+
+import type { PluginData } from "./pluginData";
+
+/** The import generated code uses to turn Foundry paths into URLs at runtime. */
+export const routeImport = "foundry:route";
+
+export const routeFilter = /^foundry:route$/;
+
+/**
+ * @returns The code to import the route function of the configured strategy as `localName`.
+ */
+export function getRouteImportStatement(localName: string): string {
+    return `import { foundryRoute as ${localName} } from ${JSON.stringify(
+        routeImport
+    )};`;
+}
+
+export function onResolveRoute(args: OnResolveArgs): OnResolveResult {
+    return {
+        path: args.path,
+        namespace: "foundry-route",
+    };
+}
+
+/**
+ * Loads a module exporting `foundryRoute(foundryPath)` which turns a path relative to Foundry's root into a URL according to `pluginData.route`.
+ */
+export function onLoadRoute(
+    pluginData: PluginData,
+    _args: OnLoadArgs
+): OnLoadResult {
+    const { route, packageType, packageName } = pluginData;
+
+    if (route === "getRoute") {
+        return {
+            contents: `export function foundryRoute(foundryPath) {
+    if (typeof globalThis.getRoute !== "function") {
+        throw new Error(\`Foundry's getRoute is not defined yet so \${JSON.stringify(foundryPath)} cannot be imported. Make sure this code runs after Foundry has loaded its scripts.\`);
+    }
+
+    return globalThis.getRoute(foundryPath);
+}`,
+            loader: "js",
+        };
+    }
+
+    if (route === "relative") {
+        // The bundle is served from `$ROUTE_PREFIX/<packageType>s/<packageName>/...`, whatever comes before the package is the route prefix.
+        const packagePath = `/${packageType}s/${packageName}/`;
+
+        return {
+            contents: `const packagePath = ${JSON.stringify(packagePath)};
+
+export function foundryRoute(foundryPath) {
+    const { pathname } = new URL(import.meta.url);
+
+    const packageIndex = pathname.indexOf(packagePath);
+    if (packageIndex === -1) {
+        throw new Error(\`Expected the URL \${import.meta.url} to be within \${packagePath} in order to import \${JSON.stringify(foundryPath)}.\`);
+    }
+
+    return new URL(\`\${pathname.slice(0, packageIndex)}/\${foundryPath}\`, import.meta.url).href;
+}`,
+            loader: "js",
+        };
+    }
+
+    // The module is imported relative to its own directory, absolute and parent directory imports would be taken as Foundry imports.
+    const { dir, base } = path.parse(route.module);
+
+    return {
+        contents: `export { ${
+            route.export
+        } as foundryRoute } from ${JSON.stringify(`./${base}`)};`,
+        resolveDir: dir,
+        loader: "js",
+    };
+}
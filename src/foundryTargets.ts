@@ -0,0 +1,178 @@
+import nativePath from "path";
+import type { OnResolveResult, PartialMessage } from "esbuild";
+
+import type { FoundryPaths, Log, PluginData } from "./pluginData";
+import { FoundryResolver } from "./foundryResolver";
+import { getFoundryAppPath, getFoundryDataPath } from "./foundryConfig";
+import { humanizeList } from "./foundryEntries";
+import { parseMajorVersion } from "./manifestSchema";
+import { normalize } from "./onResolve";
+
+export type FoundryTargetOptions = {
+    /** The version of Foundry the install or index is of, like "10" or "11.315". It's what missing files are reported with and what's compared with the manifest's compatibility. */
+    version: string;
+
+    /** The path to the extracted zip of Foundry, see `foundryPaths.appPath`. */
+    appPath?: string;
+
+    /** The path to the data folder of Foundry, see `foundryPaths.dataPath`. */
+    dataPath?: string;
+
+    /** Optional, the path to a Foundry index made by the index command to use in place of an install. */
+    index?: string;
+};
+
+export type FoundryTarget = {
+    version: string;
+    resolver: FoundryResolver;
+    foundryPaths: FoundryPaths | undefined;
+};
+
+/**
+ * Creates a resolver for every install or index. In CI only indexes are used, like with a single install.
+ */
+export function getFoundryTargets(
+    targetOptions: FoundryTargetOptions[],
+    additionalFiles: string[],
+    ci: boolean,
+    log: Log
+): FoundryTarget[] {
+    const targets = [];
+    for (const { version, appPath, dataPath, index } of targetOptions) {
+        if (typeof index !== "undefined") {
+            targets.push({
+                version,
+                resolver: new FoundryResolver(
+                    undefined,
+                    additionalFiles,
+                    normalize(nativePath.resolve(index))
+                ),
+                foundryPaths: undefined,
+            });
+        } else if (!ci) {
+            const foundryPaths = {
+                appPath: getFoundryAppPath(appPath, log),
+                dataPath: getFoundryDataPath(dataPath, log),
+            };
+
+            targets.push({
+                version,
+                resolver: new FoundryResolver(foundryPaths, additionalFiles),
+                foundryPaths,
+            });
+        }
+    }
+
+    return targets;
+}
+
+/**
+ * Checks a Foundry path exists in every target. Versions within the manifest's compatibility must have the file, it's an error when they don't. Other versions missing it are only warned about.
+ *
+ * @param importPath - The import as written, for messages.
+ * @param foundryPath - The path relative to Foundry's root.
+ */
+export async function checkFoundryTargets(
+    pluginData: PluginData,
+    importPath: string,
+    foundryPath: string
+): Promise<OnResolveResult> {
+    const { pluginName, foundryTargets, cachedManifest } = pluginData;
+
+    const watchFiles = [
+        // Which versions are required changes along with the manifest.
+        nativePath.join(
+            pluginData.projectRoot,
+            `${pluginData.packageType}.json`
+        ),
+    ];
+    const watchDirs = [];
+
+    const present = [];
+    const missingRequired = [];
+    const missingOptional = [];
+    for (const { version, resolver } of foundryTargets) {
+        const watchPaths = await resolver.getWatchPaths(foundryPath);
+        watchFiles.push(...watchPaths.watchFiles);
+        watchDirs.push(...watchPaths.watchDirs);
+
+        const label = `v${version}`;
+        if (await resolver.exists(foundryPath)) {
+            present.push(label);
+        } else if (isCompatible(cachedManifest?.manifestJSON, version)) {
+            missingRequired.push(label);
+        } else {
+            missingOptional.push(label);
+        }
+    }
+
+    const existsIn =
+        present.length === 0
+            ? "does not exist in any of the configured versions"
+            : `only exists in ${humanizeList(present)}`;
+    const detail = `The import resolves to ${JSON.stringify(
+        foundryPath
+    )} relative to Foundry's root which ${existsIn}.`;
+
+    const errors: PartialMessage[] = [];
+    if (missingRequired.length !== 0) {
+        // No location is given so that ESBuild points the error at the import statement itself.
+        errors.push({
+            pluginName,
+            text: `Could not resolve ${JSON.stringify(
+                importPath
+            )} within Foundry ${humanizeList(missingRequired)}`,
+            detail,
+        });
+    }
+
+    const warnings: PartialMessage[] = [];
+    if (missingOptional.length !== 0) {
+        warnings.push({
+            pluginName,
+            text: `Could not resolve ${JSON.stringify(
+                importPath
+            )} within Foundry ${humanizeList(
+                missingOptional
+            )}, which the manifest's compatibility does not include`,
+            detail,
+        });
+    }
+
+    return { errors, warnings, watchFiles, watchDirs };
+}
+
+/**
+ * Since v10 compatibility is given by `compatibility.minimum`, `compatibility.verified` and `compatibility.maximum`, before that by `minimumCoreVersion` and `compatibleCoreVersion`. Versions are compared by their major version, without any compatibility every version is compatible.
+ */
+function isCompatible(
+    manifestJSON: Record<string, unknown> | undefined,
+    version: string
+): boolean {
+    const majorVersion = parseMajorVersion(version);
+    if (
+        typeof manifestJSON === "undefined" ||
+        typeof majorVersion === "undefined"
+    ) {
+        return true;
+    }
+
+    const compatibility = (manifestJSON.compatibility ?? {}) as Record<
+        string,
+        unknown
+    >;
+
+    const minimum = parseMajorVersion(
+        compatibility.minimum ?? manifestJSON.minimumCoreVersion
+    );
+    const maximum = parseMajorVersion(
+        compatibility.maximum ??
+            compatibility.verified ??
+            manifestJSON.compatibleCoreVersion
+    );
+
+    return (
+        (typeof minimum === "undefined" || majorVersion >= minimum) &&
+        (typeof maximum === "undefined" || majorVersion <= maximum)
+    );
+}
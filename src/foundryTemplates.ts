@@ -9,6 +9,8 @@ import fs from "fs";
 
 import type { PluginData } from "./pluginData";
 import { normalize } from "./onResolve";
+import { getRouteImportStatement } from "./foundryRoute";
+import { parseTemplate } from "./templateParsing";
 
 export function onResolveTemplates(args: OnResolveArgs): OnResolveResult {
     const resolvedPath = normalize(nativePath.join(args.resolveDir, args.path));
@@ -17,9 +19,6 @@ export function onResolveTemplates(args: OnResolveArgs): OnResolveResult {
         path: resolvedPath,
         watchFiles: [resolvedPath],
         namespace: "foundry-template",
-        pluginData: {
-            resolveArgs: args,
-        },
     };
 }
 
@@ -27,36 +26,77 @@ export async function onLoadTemplates(
     pluginData: PluginData,
     args: OnLoadArgs
 ): Promise<OnLoadResult> {
-    const resolveArgs = args.pluginData.resolveArgs as OnResolveArgs;
+    let precompiled;
+    let watchFiles: string[] = [];
+    let watchDirs: string[] = [];
+    if (pluginData.validateTemplates) {
+        const text = await fs.promises.readFile(args.path, "utf-8");
+        const parsed = await parseTemplate(pluginData, text, args.path);
 
-    const rootRelative = nativePath.relative(pluginData.projectRoot, args.path);
+        // The partials are watched so that creating a missing one rebuilds.
+        ({ watchFiles, watchDirs } = parsed);
+        if (parsed.errors.length !== 0) {
+            return {
+                errors: parsed.errors,
+                watchFiles,
+                watchDirs,
+            };
+        }
 
-    const outputPath = nativePath.join(pluginData.outdir, rootRelative);
-    const outDir = nativePath.parse(outputPath).dir;
+        ({ precompiled } = parsed);
+    }
 
-    await fs.promises.mkdir(outDir, { recursive: true });
+    const foundryPath = await copyToOutdir(pluginData, args.path);
 
-    await fs.promises.copyFile(
-        nativePath.join(pluginData.projectRoot, rootRelative),
-        nativePath.join(pluginData.outdir, rootRelative)
-    );
+    // Foundry refers to templates by their path relative to its root, the URL is only needed to fetch them directly.
+    // It's a function so that the route isn't computed before Foundry is ready for it.
+    const contents = [
+        getRouteImportStatement("foundryRoute"),
+        `const foundryPath = ${JSON.stringify(foundryPath)};`,
+        "export default foundryPath;",
+        "export function getURL() { return foundryRoute(foundryPath); }",
+    ];
 
-    const relativeResolveDir = nativePath.relative(
-        pluginData.projectRoot,
-        resolveArgs.resolveDir
-    );
+    // Foundry loads Handlebars before any package so it's available when the module is evaluated.
+    if (typeof precompiled !== "undefined") {
+        contents.push(
+            `export const template = Handlebars.template(${precompiled});`
+        );
+    }
+
+    return {
+        contents: contents.join("\n"),
+        loader: "js",
+        watchFiles,
+        watchDirs,
+    };
+}
+
+/**
+ * Copies a file of the project into outdir at the same path relative to it.
+ *
+ * @param filePath - The absolute path of the file.
+ * @returns The path of the copied file relative to Foundry's root, like `modules/<name>/templates/sheet.hbs`.
+ */
+export async function copyToOutdir(
+    pluginData: PluginData,
+    filePath: string
+): Promise<string> {
+    const rootRelative = nativePath.relative(pluginData.projectRoot, filePath);
+
+    const outputPath = nativePath.join(pluginData.outdir, rootRelative);
+
+    await fs.promises.mkdir(nativePath.dirname(outputPath), {
+        recursive: true,
+    });
+
+    await fs.promises.copyFile(filePath, outputPath);
 
-    const foundryPath = normalize(
+    return normalize(
         nativePath.join(
             `${pluginData.packageType}s`,
             pluginData.packageName,
-            relativeResolveDir,
-            resolveArgs.path
+            rootRelative
         )
     );
-
-    return {
-        contents: `export default ${JSON.stringify(foundryPath)};`,
-        loader: "js",
-    };
 }
@@ -0,0 +1,96 @@
+import fs from "fs";
+import nativePath from "path";
+import picomatch from "picomatch";
+import type {
+    OnResolveArgs,
+    OnResolveResult,
+    OnLoadArgs,
+    OnLoadResult,
+} from "esbuild";
+
+import type { PluginData } from "./pluginData";
+import { normalize } from "./onResolve";
+import { getFilesRecursively } from "./files";
+import { copyToOutdir } from "./foundryTemplates";
+
+const { posix: path } = nativePath;
+
+// Relative imports with glob syntax like `./templates/**/*.hbs`.
+export const globFilter = /^\.\.?\/.*[*?[{]/;
+
+/**
+ * Globs are only expanded within the project, those that reach outside of it are left to be resolved as Foundry imports.
+ */
+export function onResolveGlob(
+    pluginData: PluginData,
+    args: OnResolveArgs
+): OnResolveResult | undefined {
+    const pattern = normalize(nativePath.join(args.resolveDir, args.path));
+    const { base } = picomatch.scan(pattern);
+
+    if (path.relative(pluginData.projectRoot, base).startsWith("..")) {
+        return undefined;
+    }
+
+    return {
+        path: pattern,
+        namespace: "foundry-glob",
+    };
+}
+
+/**
+ * Loads a module whose default export maps the path of each matching file, relative to the static start of the glob, to its Foundry path. Templates are imported so they're handled like any other template import while other files are copied into outdir.
+ */
+export async function onLoadGlob(
+    pluginData: PluginData,
+    args: OnLoadArgs
+): Promise<OnLoadResult> {
+    const { base, glob } = picomatch.scan(args.path);
+    const isMatch = picomatch(glob);
+
+    const baseExists = await fs.promises.stat(base).then(
+        (stats) => stats.isDirectory(),
+        () => false
+    );
+
+    const watchDirs: string[] = [];
+    const files = baseExists
+        ? (await getFilesRecursively(base, watchDirs)).filter((file) =>
+              isMatch(path.relative(base, file))
+          )
+        : [];
+
+    pluginData.log(`Glob ${JSON.stringify(args.path)} matched:`, files);
+
+    const imports: string[] = [];
+    const entries: string[] = [];
+    for (const file of files) {
+        const key = JSON.stringify(path.relative(base, file));
+
+        if (pluginData.templatesFilter.test(file)) {
+            const localName = `__glob${imports.length}`;
+            imports.push(
+                `import ${localName} from ${JSON.stringify(
+                    `./${path.relative(base, file)}`
+                )};`
+            );
+            entries.push(`    ${key}: ${localName},`);
+        } else {
+            const foundryPath = await copyToOutdir(pluginData, file);
+            entries.push(`    ${key}: ${JSON.stringify(foundryPath)},`);
+        }
+    }
+
+    const contents = [...imports, "export default {", ...entries, "};"].join(
+        "\n"
+    );
+
+    return {
+        contents,
+        loader: "js",
+        resolveDir: base,
+        watchFiles: files,
+        // A base directory that doesn't exist yet is watched through its parent so that creating it rebuilds.
+        watchDirs: baseExists ? watchDirs : [path.dirname(base)],
+    };
+}
@@ -14,10 +14,31 @@ import {
     normalize,
     onLoadFoundryImport,
 } from "./onResolve";
-import { configureEntrypoints } from "./entrypoints";
+import { configureEntrypoints, onResolveEntrypoint } from "./entrypoints";
 import { createManifest, setupManifest } from "./foundryManifest";
 import { traversesUpDirectoryRegex } from "./foundryResolver";
+import { getFoundryVersionWarnings } from "./foundryEntries";
 import { onLoadTemplates, onResolveTemplates } from "./foundryTemplates";
+import { invalidateResolveCache } from "./cacheInvalidation";
+import { onLoadRoute, onResolveRoute, routeFilter } from "./foundryRoute";
+import { checkLocalizationKeys } from "./localizationKeys";
+import { rewriteCSSURLs } from "./cssURLs";
+import { deploy } from "./deploy";
+import { copyAssets } from "./assets";
+import { globFilter, onLoadGlob, onResolveGlob } from "./globImports";
+import {
+    onLoadTemplatesModule,
+    onResolveTemplatesModule,
+    templatesImportFilter,
+} from "./templatesModule";
+
+export {
+    unpackPacks,
+    type UnpackOptions,
+    type UnpackedPack,
+} from "./unpackPacks";
+
+export { packageRelease, type ReleaseOptions, type Release } from "./release";
 
 export const foundryPlugin = (options: Options): Plugin => {
     const pluginData = getPluginData(options);
@@ -26,18 +47,38 @@ export const foundryPlugin = (options: Options): Plugin => {
         name: pluginName,
         async setup(build) {
             configureOptions(pluginData, build.initialOptions);
-            await configureEntrypoints(pluginData, build);
 
             const { log } = pluginData;
 
+            // The version is read before anything else as the manifest, including when adding entrypoints from it, is validated for the installed version.
+            pluginData.foundryVersion = await pluginData.resolver.getVersion();
+
+            log("Found Foundry version:", pluginData.foundryVersion);
+
+            await configureEntrypoints(pluginData, build);
+
             log("Build with options:", build.initialOptions);
 
+            // This is registered first so that entrypoints are always given the files the manifest would like to watch, see `onResolveEntrypoint`.
+            build.onResolve({ filter: /.*/ }, (args) =>
+                onResolveEntrypoint(pluginData, build, args)
+            );
+
+            // Globs are expanded before anything else so that a glob traversing up a directory isn't mistaken for a Foundry import.
+            build.onResolve({ filter: globFilter }, (args) =>
+                onResolveGlob(pluginData, args)
+            );
+
+            build.onLoad({ filter: /.*/, namespace: "foundry-glob" }, (args) =>
+                onLoadGlob(pluginData, args)
+            );
+
             // Foundry will put your code within the path `$ROUTE_PREFIX/modules/<name>` or `$ROUTE_PREFIX/systems/<name>`.
             // This means to access other Foundry files all (normalized) imports must traverse up at least one directory.
             build.onResolve(
                 { filter: traversesUpDirectoryRegex },
                 cachedResolve(pluginData, (args) =>
-                    onResolveTraversesUp(pluginData, args)
+                    onResolveTraversesUp(pluginData, build, args)
                 )
             );
 
@@ -47,19 +88,26 @@ export const foundryPlugin = (options: Options): Plugin => {
                 "\n"
             );
 
-            // Alternatively you can use an absolute path import but this assumes `$ROUTE_PREFIX` is empty and so should be considered an anti-pattern as importing this way will break if `$ROUTE_PREFIX` is set.
-            // This is why absolute path imports are optional.
+            // Alternatively you can use an absolute path import. In the browser this would assume `$ROUTE_PREFIX` is empty but as they're rewritten to go through the configured route strategy they work either way.
+            // Still absolute path imports are optional as they don't reflect how Foundry serves files.
             // While absolute paths on Windows could start with something like `C:/` we don't care about that here because that's definitely not a valid Foundry import.
             build.onResolve(
                 { filter: /^[/\\]/ },
                 cachedResolve(pluginData, (args) =>
-                    onResolveAbsolute(pluginData, args)
+                    onResolveAbsolute(pluginData, build, args)
                 )
             );
 
             build.onLoad(
                 { filter: /.*/, namespace: "foundry-import" },
-                onLoadFoundryImport
+                (args) => onLoadFoundryImport(pluginData, build, args)
+            );
+
+            // Generated code imports the route strategy from a virtual module so that Foundry paths become URLs the same way everywhere.
+            build.onResolve({ filter: routeFilter }, onResolveRoute);
+
+            build.onLoad({ filter: /.*/, namespace: "foundry-route" }, (args) =>
+                onLoadRoute(pluginData, args)
             );
 
             build.onResolve(
@@ -72,11 +120,43 @@ export const foundryPlugin = (options: Options): Plugin => {
                 (args) => onLoadTemplates(pluginData, args)
             );
 
+            // A generated module lists every template in `templatesDirs` so that preloading them can't fall out of sync.
+            build.onResolve(
+                { filter: templatesImportFilter },
+                onResolveTemplatesModule
+            );
+
+            build.onLoad(
+                { filter: /.*/, namespace: "foundry-templates" },
+                (args) => onLoadTemplatesModule(pluginData, args)
+            );
+
+            // Cached resolutions are kept between rebuilds, only the ones depending on files or directories that have changed are thrown away.
+            build.onStart(() => invalidateResolveCache(pluginData));
+
+            build.onStart(async () => ({
+                warnings: [
+                    ...getFoundryVersionWarnings(pluginData),
+                    ...(await pluginData.resolver.getEntryWarnings()),
+                ],
+            }));
+
             build.onStart(() => setupManifest(pluginData, build));
 
-            // We setup the manifest on start but unfortunately it has files it'd like to watch but just can't within onStart. We get around this hackily by using the first entrypoint and giving it the files to watch there.
+            build.onStart(() => copyAssets(pluginData));
+
+            // We setup the manifest on start but unfortunately it has files it'd like to watch but just can't within onStart. We get around this hackily by resolving the entrypoints and giving them the files to watch, see the start of setup.
 
             build.onEnd((result) => createManifest(pluginData, build, result));
+
+            build.onEnd((result) => rewriteCSSURLs(pluginData, result));
+
+            // Deploying comes after everything else has written to outdir.
+            build.onEnd((result) => deploy(pluginData, result));
+
+            build.onEnd((result) =>
+                checkLocalizationKeys(pluginData, build, result)
+            );
         },
     };
 };
@@ -0,0 +1,204 @@
+import type { Location, PartialMessage } from "esbuild";
+
+export type JSONPath = (string | number)[];
+
+type Span = { offset: number; length: number };
+
+/**
+ * Creates a function to find where a value is within JSON text. Properties of objects point to their key while items of arrays point to the item itself.
+ * If a path doesn't exist, for example a missing required property, the closest existing parent is used instead.
+ *
+ * @param text - The JSON text, it must already be known to be valid JSON.
+ * @param file - The file the JSON text comes from, as it should be shown in messages.
+ */
+export function getJSONLocator(
+    text: string,
+    file: string
+): (jsonPath: JSONPath) => Partial<Location> {
+    const spans = scanJSON(text);
+
+    return (jsonPath) => {
+        for (let i = jsonPath.length; i >= 0; i--) {
+            const span = spans.get(JSON.stringify(jsonPath.slice(0, i)));
+            if (typeof span !== "undefined") {
+                return getLocation(text, file, span.offset, span.length);
+            }
+        }
+
+        return { file };
+    };
+}
+
+/**
+ * @param offset - The offset into the text, for example one given by the error of `JSON.parse`.
+ * @param length - The length of the located text in characters.
+ */
+export function getTextLocation(
+    text: string,
+    file: string,
+    offset: number,
+    length = 1
+): Partial<Location> {
+    return getLocation(text, file, offset, length);
+}
+
+/**
+ * Creates an error for JSON that couldn't be parsed, located where `JSON.parse` gave up when it says so.
+ *
+ * @param e - The error thrown by `JSON.parse`.
+ * @param name - How the file is named in the error text, defaults to `file`.
+ */
+export function getJSONParseError(
+    pluginName: string,
+    text: string,
+    file: string,
+    e: unknown,
+    name = file
+): PartialMessage {
+    const message = e instanceof Error ? e.message : String(e);
+    const position = /at position (\d+)/.exec(message)?.[1];
+
+    return {
+        pluginName,
+        text: `Could not parse ${JSON.stringify(name)}: ${message}`,
+        location:
+            typeof position === "undefined"
+                ? { file }
+                : getTextLocation(text, file, parseInt(position, 10)),
+    };
+}
+
+function getLocation(
+    text: string,
+    file: string,
+    offset: number,
+    length: number
+): Partial<Location> {
+    const lineStart = text.lastIndexOf("\n", offset - 1) + 1;
+    const lineEnd = text.indexOf("\n", offset);
+    const lineText = text
+        .slice(lineStart, lineEnd === -1 ? text.length : lineEnd)
+        .replace(/\r$/, "");
+
+    // ESBuild lines are 1-based while columns are 0-based and in bytes.
+    const line = text.slice(0, lineStart).split("\n").length;
+    const column = Buffer.byteLength(text.slice(lineStart, offset));
+
+    return {
+        file,
+        line,
+        column,
+        length: Buffer.byteLength(text.slice(offset, offset + length)),
+        lineText,
+    };
+}
+
+/**
+ * Scans valid JSON text recording the span of every value, keyed by its path as a JSON string.
+ */
+function scanJSON(text: string): Map<string, Span> {
+    const spans = new Map<string, Span>();
+
+    let i = 0;
+
+    const skipWhitespace = () => {
+        while (i < text.length && /\s/.test(text[i] as string)) {
+            i += 1;
+        }
+    };
+
+    const scanString = (): Span => {
+        const offset = i;
+
+        // Skips the opening quote and then everything up to the closing quote, escaped characters included.
+        i += 1;
+        while (i < text.length && text[i] !== '"') {
+            i += text[i] === "\\" ? 2 : 1;
+        }
+        i += 1;
+
+        return { offset, length: i - offset };
+    };
+
+    const scanValue = (jsonPath: JSONPath, keySpan?: Span) => {
+        skipWhitespace();
+
+        const offset = i;
+        const char = text[i];
+        if (char === "{") {
+            spans.set(
+                JSON.stringify(jsonPath),
+                keySpan ?? { offset, length: 1 }
+            );
+
+            i += 1;
+            skipWhitespace();
+            while (text[i] !== "}" && i < text.length) {
+                const memberKeySpan = scanString();
+                const key = JSON.parse(
+                    text.slice(
+                        memberKeySpan.offset,
+                        memberKeySpan.offset + memberKeySpan.length
+                    )
+                ) as string;
+
+                skipWhitespace();
+                // Skips the colon.
+                i += 1;
+
+                scanValue([...jsonPath, key], memberKeySpan);
+
+                skipWhitespace();
+                if (text[i] === ",") {
+                    i += 1;
+                    skipWhitespace();
+                }
+            }
+            i += 1;
+
+            return;
+        }
+
+        if (char === "[") {
+            spans.set(
+                JSON.stringify(jsonPath),
+                keySpan ?? { offset, length: 1 }
+            );
+
+            i += 1;
+            skipWhitespace();
+            let index = 0;
+            while (text[i] !== "]" && i < text.length) {
+                scanValue([...jsonPath, index]);
+                index += 1;
+
+                skipWhitespace();
+                if (text[i] === ",") {
+                    i += 1;
+                    skipWhitespace();
+                }
+            }
+            i += 1;
+
+            return;
+        }
+
+        let valueSpan;
+        if (char === '"') {
+            valueSpan = scanString();
+        } else {
+            // Numbers, true, false, and null.
+            while (i < text.length && !/[\s,\]}]/.test(text[i] as string)) {
+                i += 1;
+            }
+
+            valueSpan = { offset, length: i - offset };
+        }
+
+        spans.set(JSON.stringify(jsonPath), keySpan ?? valueSpan);
+    };
+
+    scanValue([]);
+
+    return spans;
+}
@@ -0,0 +1,152 @@
+import fs from "fs";
+import nativePath from "path";
+import type {
+    BuildResult,
+    Location,
+    PartialMessage,
+    PluginBuild,
+} from "esbuild";
+
+import type { PluginData } from "./pluginData";
+import { normalize } from "./onResolve";
+import { getTextLocation } from "./jsonLocations";
+import { countKeys, listKeys } from "./foundryLanguages";
+import { logWarnings } from "./buildMessages";
+
+type KeyUsage = {
+    key: string;
+
+    /** Whether the key was built at runtime with a template literal, only its static start before the first substitution is known. */
+    isPrefix: boolean;
+
+    location: Partial<Location>;
+};
+
+// Matches `game.i18n.localize("KEY")` and `game.i18n.format("KEY", ...)`. A template literal is only known up to its first substitution.
+const codeKeyRegex =
+    /\bi18n\s*\.\s*(?:localize|format)\s*\(\s*(["'`])([^"'`$\\\n]*)(\1|\$\{)/g;
+
+// Matches `{{localize "KEY"}}` as well as subexpressions like `(localize "KEY")`.
+const templateKeyRegex = /[{(]\s*localize\s+(["'])([^"'\n]*)\1/g;
+
+const codeExtensions = new Set([".tsx", ".ts", ".jsx", ".js", ".mjs", ".cjs"]);
+
+/**
+ * Compares the localization keys used by the bundled code and templates with the keys of the base language. Unknown keys are warned about where they're used while unused keys are warned about in the base language file.
+ *
+ * Warnings can't be returned from `onEnd` so they're added to the result and logged the same way ESBuild logs its own.
+ */
+export async function checkLocalizationKeys(
+    pluginData: PluginData,
+    build: PluginBuild,
+    result: BuildResult
+): Promise<void> {
+    const { pluginName, localization, cachedManifest } = pluginData;
+    const baseKeys = cachedManifest?.localizationKeys;
+
+    if (
+        !localization.checkKeys ||
+        result.errors.length !== 0 ||
+        typeof baseKeys === "undefined" ||
+        typeof result.metafile === "undefined"
+    ) {
+        return;
+    }
+
+    const usages: KeyUsage[] = [];
+    for (const input of Object.keys(result.metafile.inputs)) {
+        usages.push(...(await getKeyUsages(pluginData, input)));
+    }
+
+    const warnings: PartialMessage[] = [];
+    const used = new Set<string>();
+    const usedPrefixes = new Set<string>();
+
+    for (const { key, isPrefix, location } of usages) {
+        if (isPrefix) {
+            usedPrefixes.add(key);
+            continue;
+        }
+
+        used.add(key);
+
+        if (!baseKeys.has(key)) {
+            warnings.push({
+                pluginName,
+                text: `The localization key ${JSON.stringify(
+                    key
+                )} is not in the base language ${JSON.stringify(
+                    localization.baseLanguage
+                )}`,
+                location,
+            });
+        }
+    }
+
+    const unused = [...baseKeys.keys()].filter(
+        (key) =>
+            !used.has(key) &&
+            ![...usedPrefixes].some((prefix) => key.startsWith(prefix))
+    );
+    if (unused.length !== 0) {
+        warnings.push({
+            pluginName,
+            text: `The base language ${JSON.stringify(
+                localization.baseLanguage
+            )} has ${countKeys(
+                unused
+            )} not used by any code or template: ${listKeys(unused)}`,
+            location: baseKeys.get(unused[0] as string) ?? null,
+            detail: "Keys may also be used by Foundry itself, for example through the labels of CONFIG entries.",
+        });
+    }
+
+    await logWarnings(build, result, warnings);
+}
+
+async function getKeyUsages(
+    pluginData: PluginData,
+    input: string
+): Promise<KeyUsage[]> {
+    // Inputs outside the file namespace are prefixed by their namespace, templates are the only ones with keys.
+    const templatePrefix = "foundry-template:";
+
+    let filePath;
+    let regex;
+    if (input.startsWith(templatePrefix)) {
+        filePath = input.slice(templatePrefix.length);
+        regex = templateKeyRegex;
+    } else if (
+        codeExtensions.has(nativePath.extname(input)) &&
+        !/(^|\/)node_modules\//.test(input) &&
+        !/^[a-z-]+:/.test(input)
+    ) {
+        filePath = nativePath.resolve(input);
+        regex = codeKeyRegex;
+    } else {
+        return [];
+    }
+
+    // Only our own package's files are checked, not those of Foundry or other packages.
+    if (!normalize(filePath).startsWith(`${pluginData.projectRoot}/`)) {
+        return [];
+    }
+
+    const text = await fs.promises.readFile(filePath, "utf-8");
+
+    // Locations are given relative to the working directory like ESBuild's own messages.
+    const messageFile = normalize(nativePath.relative(process.cwd(), filePath));
+
+    return [...text.matchAll(regex)].map((match) => {
+        // Templates have no group for the closing quote, it's the same as the opening quote.
+        const [matched, quote = "", key = "", closing = quote] = match;
+        const offset =
+            (match.index ?? 0) + matched.length - closing.length - key.length;
+
+        return {
+            key,
+            isPrefix: quote === "`" && closing === "${",
+            location: getTextLocation(text, messageFile, offset, key.length),
+        };
+    });
+}
@@ -1,3 +1,5 @@
+import type { Schema } from "jsonschema";
+
 import type { PackageType } from "./pluginData";
 
 /**
@@ -16,13 +18,19 @@ export function isManifestJSON(
     }
 
     if (typeof packageType === "undefined" || packageType === "system") {
-        return fileName === "system.json";
+        if (fileName === "system.json") {
+            return true;
+        }
+    }
+
+    if (typeof packageType === "undefined" || packageType === "world") {
+        return fileName === "world.json";
     }
 
     return false;
 }
 
-const dependencyProperties = {
+const v9Properties = {
     // Optional
     scripts: {
         type: "array",
@@ -50,7 +58,7 @@ const dependencyProperties = {
     },
     packs: {
         type: "array",
-        item: {
+        items: {
             type: "object",
             properties: {
                 name: {
@@ -60,8 +68,9 @@ const dependencyProperties = {
                     type: "string",
                 },
                 system: {
-                    type: "array",
-                    item: {
+                    // Foundry accepts either a single system or a list of them.
+                    type: ["string", "array"],
+                    items: {
                         type: "string",
                     },
                 },
@@ -72,7 +81,7 @@ const dependencyProperties = {
                     type: "string",
                 },
             },
-            required: ["name", "label", "system", "path", "entity"],
+            required: ["name", "label", "path", "entity"],
         },
         description: `Modules may come bundled with Compendium packs which include game content for various Entity types. Compendium packs are defined as objects which have their own internal metadata structure."`,
         example: [
@@ -87,7 +96,7 @@ const dependencyProperties = {
     },
     dependencies: {
         type: "array",
-        item: {
+        items: {
             type: "object",
             properties: {
                 name: {
@@ -132,7 +141,7 @@ const dependencyProperties = {
     },
     languages: {
         type: "array",
-        item: {
+        items: {
             type: "object",
             properties: {
                 lang: {
@@ -163,12 +172,393 @@ const dependencyProperties = {
     },
 };
 
-export const module = {
+const compatibility = {
     type: "object",
-    properties: dependencyProperties,
+    properties: {
+        minimum: {
+            type: "string",
+            description:
+                "The minimum version of the core software which is required to use this package.",
+        },
+        verified: {
+            type: "string",
+            description:
+                "The version of the core software on which this package has been verified to work.",
+        },
+        maximum: {
+            type: "string",
+            description:
+                "The maximum version of the core software beyond which this package is not compatible.",
+        },
+    },
+    description:
+        "The range of core software versions this package is compatible with.",
+    example: {
+        minimum: "10",
+        verified: "10.291",
+    },
 };
 
-export const system = {
+const relationship = {
     type: "object",
-    properties: dependencyProperties,
+    properties: {
+        id: {
+            type: "string",
+            description: "The id of the related package.",
+        },
+        type: {
+            type: "string",
+            description: "The type of the related package.",
+            enum: ["module", "system", "world"],
+        },
+        manifest: {
+            type: "string",
+            description:
+                "An explicit manifest URL to use when installing the related package.",
+        },
+        compatibility,
+        reason: {
+            type: "string",
+            description: "Why this relationship exists.",
+        },
+    },
+    required: ["id"],
+};
+
+const relationshipList = {
+    type: "array",
+    items: relationship,
 };
+
+const v10Properties = {
+    id: {
+        type: "string",
+        description:
+            "The unique package identifier, it must match the name of the package's directory.",
+    },
+    title: {
+        type: "string",
+    },
+    description: {
+        type: "string",
+    },
+    version: {
+        type: "string",
+    },
+    compatibility,
+    authors: {
+        type: "array",
+        items: {
+            type: "object",
+            properties: {
+                name: { type: "string" },
+                email: { type: "string" },
+                url: { type: "string" },
+                discord: { type: "string" },
+            },
+            required: ["name"],
+        },
+    },
+    url: {
+        type: "string",
+    },
+    manifest: {
+        type: "string",
+    },
+    download: {
+        type: "string",
+    },
+    scripts: v9Properties.scripts,
+    esmodules: v9Properties.esmodules,
+    styles: v9Properties.styles,
+    languages: v9Properties.languages,
+    packs: {
+        type: "array",
+        items: {
+            type: "object",
+            properties: {
+                name: {
+                    type: "string",
+                },
+                label: {
+                    type: "string",
+                },
+                path: {
+                    type: "string",
+                },
+                type: {
+                    type: "string",
+                    description:
+                        "The type of document the compendium pack contains, for example Actor or Item.",
+                },
+                system: {
+                    type: "string",
+                    description:
+                        "The game system the compendium pack is meant for.",
+                },
+                private: {
+                    type: "boolean",
+                },
+            },
+            required: ["name", "label", "path", "type"],
+        },
+        description:
+            "Compendium packs included with the package, the document type of each pack is given by its type.",
+        example: [
+            {
+                name: "pack-name",
+                label: "Pack Title",
+                system: "system-name",
+                path: "packs/pack-name.db",
+                type: "Item",
+            },
+        ],
+    },
+    relationships: {
+        type: "object",
+        properties: {
+            systems: relationshipList,
+            requires: relationshipList,
+            recommends: relationshipList,
+        },
+        description:
+            "Packages this package relates to. Those in requires must be installed and active for this package to be used.",
+    },
+    media: {
+        type: "array",
+        items: {
+            type: "object",
+            properties: {
+                type: {
+                    type: "string",
+                    description:
+                        "The type of media, for example cover, screenshot, icon, or video.",
+                },
+                url: {
+                    type: "string",
+                },
+                thumbnail: {
+                    type: "string",
+                },
+                caption: {
+                    type: "string",
+                },
+                loop: {
+                    type: "boolean",
+                },
+            },
+            required: ["type"],
+        },
+    },
+    socket: {
+        type: "boolean",
+    },
+};
+
+const v11Properties = {
+    ...v10Properties,
+    packs: {
+        ...v10Properties.packs,
+        items: {
+            ...v10Properties.packs.items,
+            properties: {
+                ...v10Properties.packs.items.properties,
+                ownership: {
+                    type: "object",
+                },
+            },
+            // Packs default to the directory `packs/<name>` when there's no path.
+            required: ["name", "label", "type"],
+        },
+        description:
+            "Compendium packs included with the package. Each pack is a LevelDB directory, the document type of each pack is given by its type.",
+        example: [
+            {
+                name: "pack-name",
+                label: "Pack Title",
+                system: "system-name",
+                path: "packs/pack-name",
+                type: "Item",
+            },
+        ],
+    },
+    relationships: {
+        ...v10Properties.relationships,
+        properties: {
+            ...v10Properties.relationships.properties,
+            conflicts: relationshipList,
+        },
+    },
+    packFolders: {
+        type: "array",
+        items: {
+            type: "object",
+        },
+    },
+};
+
+const documentTypes = {
+    type: "object",
+    description:
+        "The sub-types of documents, for example the Actor types, a system defines along with the fields each type has.",
+};
+
+const worldProperties = {
+    system: {
+        type: "string",
+        description:
+            "The id of the system the world is played with, it must be installed for the world to launch.",
+    },
+    systemVersion: {
+        type: "string",
+        description:
+            "The version of the system the world was last played with.",
+    },
+    coreVersion: {
+        type: "string",
+        description: "The version of Foundry the world was last played with.",
+    },
+    background: {
+        type: "string",
+        description:
+            "A path to an image shown behind the world on the join screen.",
+    },
+    nextSession: {
+        type: ["string", "null"],
+        description:
+            "When the next session is scheduled, as an ISO 8601 date. It's shown on the join screen.",
+    },
+};
+
+const v11WorldProperties = {
+    ...worldProperties,
+    joinTheme: {
+        type: "string",
+        description: "The theme of the join screen.",
+    },
+};
+
+export type ManifestVersion = 9 | 10 | 11;
+
+const schemas: Record<ManifestVersion, Record<PackageType, Schema>> = {
+    9: {
+        module: {
+            type: "object",
+            properties: v9Properties,
+        },
+        system: {
+            type: "object",
+            properties: v9Properties,
+        },
+        world: {
+            type: "object",
+            properties: { ...v9Properties, ...worldProperties },
+            required: ["system"],
+        },
+    },
+    10: {
+        module: {
+            type: "object",
+            properties: v10Properties,
+        },
+        system: {
+            type: "object",
+            properties: { ...v10Properties, documentTypes },
+        },
+        world: {
+            type: "object",
+            properties: { ...v10Properties, ...worldProperties },
+            required: ["system"],
+        },
+    },
+    11: {
+        module: {
+            type: "object",
+            properties: v11Properties,
+        },
+        system: {
+            type: "object",
+            properties: { ...v11Properties, documentTypes },
+        },
+        world: {
+            type: "object",
+            properties: { ...v11Properties, ...v11WorldProperties },
+            required: ["system"],
+        },
+    },
+};
+
+export function getSchema(
+    packageType: PackageType,
+    version: ManifestVersion
+): Schema {
+    return schemas[version][packageType];
+}
+
+/**
+ * Picks which version of the manifest format a manifest is written in. The manifest's declared compatibility is preferred, if there is none the version of the installed Foundry is used.
+ *
+ * @param manifestJSON - The parsed manifest.
+ * @param installedVersion - The major version of the Foundry install if it's known.
+ */
+export function getManifestVersion(
+    manifestJSON: Record<string, unknown>,
+    installedVersion: number | undefined
+): ManifestVersion {
+    const declaredCompatibility = manifestJSON.compatibility as
+        | Record<string, unknown>
+        | undefined;
+
+    // `compatibility` replaced `minimumCoreVersion` and `compatibleCoreVersion` in v10 so its presence alone means the manifest is at least for v10.
+    if (
+        declaredCompatibility != null &&
+        typeof declaredCompatibility === "object"
+    ) {
+        const declaredVersion =
+            declaredCompatibility.verified ??
+            declaredCompatibility.minimum ??
+            declaredCompatibility.maximum;
+
+        return clampVersion(
+            Math.max(
+                10,
+                parseMajorVersion(declaredVersion) ?? installedVersion ?? 10
+            )
+        );
+    }
+
+    if (
+        "minimumCoreVersion" in manifestJSON ||
+        "compatibleCoreVersion" in manifestJSON
+    ) {
+        return 9;
+    }
+
+    return clampVersion(installedVersion ?? 9);
+}
+
+/**
+ * @param version - A version like "10", "10.291", or "0.8.9".
+ */
+export function parseMajorVersion(version: unknown): number | undefined {
+    if (typeof version !== "string" && typeof version !== "number") {
+        return undefined;
+    }
+
+    const major = parseInt(String(version).split(".")[0] ?? "", 10);
+
+    return Number.isNaN(major) ? undefined : major;
+}
+
+/** Versions before 9 are treated as 9 and newer versions than are known are treated as the newest known version. */
+function clampVersion(version: number): ManifestVersion {
+    if (version <= 9) {
+        return 9;
+    }
+
+    if (version >= 11) {
+        return 11;
+    }
+
+    return 10;
+}
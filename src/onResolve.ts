@@ -3,9 +3,17 @@ import type {
     OnResolveResult,
     OnLoadArgs,
     OnLoadResult,
+    PluginBuild,
 } from "esbuild";
+import fs from "fs";
 import nativePath, { posix as path } from "path";
 import type { PluginData } from "./pluginData";
+import { getResolveDependencies } from "./cacheInvalidation";
+import { getExportNames, getImportedNames } from "./foundryExports";
+import { getRouteImportStatement } from "./foundryRoute";
+import { getCSSURLPlaceholder, splitURLSuffix } from "./cssURLs";
+import { checkFoundryTargets } from "./foundryTargets";
+import { checkPackageDependency } from "./packageDependencies";
 
 // Built for only POSIX normalized paths.
 const normalizedTraversesUpRegex = /\.\.(\/+|$)/;
@@ -17,27 +25,175 @@ export function cachedResolve(
     ) => OnResolveResult | undefined | Promise<OnResolveResult | undefined>
 ) {
     return async (args: OnResolveArgs) => {
+        const { log } = pluginData;
+
         const importer = normalize(args.importer);
         const importPath = normalize(args.path);
 
         pluginData.onResolveCache[importer] ??= {};
 
-        const cachedResult = pluginData.onResolveCache[importer][importPath];
-        if (cachedResult != null) {
-            return cachedResult;
+        const cached = pluginData.onResolveCache[importer][importPath];
+        if (cached != null) {
+            log(`Using cached resolution for ${JSON.stringify(importPath)}.`);
+
+            return cached.result;
         }
 
         const callbackResult = await callback(args);
-        pluginData.onResolveCache[importer][importPath] = callbackResult;
+        if (callbackResult == null) {
+            return callbackResult;
+        }
+
+        const { shouldCache, reason } = await getCacheDecision(
+            pluginData,
+            callbackResult
+        );
+        if (shouldCache) {
+            log(
+                `Caching resolution of ${JSON.stringify(
+                    importPath
+                )}, ${reason}.`
+            );
+
+            pluginData.onResolveCache[importer][importPath] = {
+                result: callbackResult,
+                dependencies: await getResolveDependencies(callbackResult),
+            };
+        } else {
+            log(
+                `Not caching resolution of ${JSON.stringify(
+                    importPath
+                )}, ${reason}.`
+            );
+        }
 
         return callbackResult;
     };
 }
 
-export function onResolveTraversesUp(
+type CacheDecision = { shouldCache: boolean; reason: string };
+
+/**
+ * Decides whether an onResolve result can be cached according to `pluginData.cacheOptions`. The reason is given in a human readable form for the debug log.
+ */
+async function getCacheDecision(
     pluginData: PluginData,
+    result: OnResolveResult
+): Promise<CacheDecision> {
+    const { cacheOptions, resolver } = pluginData;
+
+    if (cacheOptions.disable) {
+        return { shouldCache: false, reason: "caching is disabled" };
+    }
+
+    if (typeof result.errors !== "undefined" && result.errors.length !== 0) {
+        return {
+            shouldCache: true,
+            reason: "it failed to resolve and will be retried once the files it depends on change",
+        };
+    }
+
+    const foundryPath = getResultFoundryPath(pluginData, result);
+    if (typeof foundryPath === "undefined") {
+        return {
+            shouldCache: true,
+            reason: "it does not resolve to a Foundry path",
+        };
+    }
+
+    const quotedPath = JSON.stringify(foundryPath);
+
+    const excludedBy = cacheOptions.excluded.find((p) =>
+        isWithin(foundryPath, p)
+    );
+    if (typeof excludedBy !== "undefined") {
+        return {
+            shouldCache: false,
+            reason: `${quotedPath} is excluded by ${JSON.stringify(
+                excludedBy
+            )}`,
+        };
+    }
+
+    const { included } = cacheOptions;
+    if (included.length !== 0) {
+        const includedBy = included.find((p) => isWithin(foundryPath, p));
+        if (typeof includedBy === "undefined") {
+            return {
+                shouldCache: false,
+                reason: `${quotedPath} is not in the included list`,
+            };
+        }
+    }
+
+    if (
+        isFoundryImport(result) &&
+        (cacheOptions.disableFoundryDataCache || cacheOptions.disableFoundryApp)
+    ) {
+        const root = await resolver.getRoot(foundryPath);
+        if (root === "data" && cacheOptions.disableFoundryDataCache) {
+            return {
+                shouldCache: false,
+                reason: `${quotedPath} is within Foundry's Data folder`,
+            };
+        }
+
+        if (root === "app" && cacheOptions.disableFoundryApp) {
+            return {
+                shouldCache: false,
+                reason: `${quotedPath} is within Foundry's app folder`,
+            };
+        }
+    }
+
+    return { shouldCache: true, reason: `${quotedPath} is cacheable` };
+}
+
+/**
+ * @returns The path relative to Foundry's root that an onResolve result points to. Files local to the project are given the path they will have once in Foundry.
+ */
+function getResultFoundryPath(
+    pluginData: PluginData,
+    result: OnResolveResult
+): string | undefined {
+    if (isFoundryImport(result)) {
+        return result.pluginData.foundryImport as string;
+    }
+
+    if (result.namespace === "file" && typeof result.path !== "undefined") {
+        return path.join(
+            `${pluginData.packageType}s`,
+            pluginData.packageName,
+            normalize(nativePath.relative(pluginData.projectRoot, result.path))
+        );
+    }
+
+    return undefined;
+}
+
+/**
+ * Foundry imports, whether loaded through the foundry-import namespace or kept external, carry the path they point to relative to Foundry's root.
+ */
+function isFoundryImport(result: OnResolveResult): boolean {
+    return typeof result.pluginData?.foundryImport === "string";
+}
+
+/**
+ * @param p - The normalized path to check.
+ * @param fileOrFolder - A file or folder relative to the same root as `p`.
+ * @returns Whether `p` is the file or folder itself or lies within it.
+ */
+function isWithin(p: string, fileOrFolder: string): boolean {
+    const normalizedParent = normalize(fileOrFolder).replace(/\/+$/, "");
+
+    return p === normalizedParent || p.startsWith(`${normalizedParent}/`);
+}
+
+export async function onResolveTraversesUp(
+    pluginData: PluginData,
+    build: PluginBuild,
     args: OnResolveArgs
-): OnResolveResult | undefined {
+): Promise<OnResolveResult | undefined> {
     const { log } = pluginData;
 
     const { importerDir, importPath } = getImportData(args, pluginData);
@@ -70,14 +226,19 @@ export function onResolveTraversesUp(
     const resolvesTo = path.join(foundryImporterPath, importPath);
 
     // An import can go back into the current package or system.
-    // For example if the current package is a module named foo and the import resolves like `modules/foo/bar/lorem.js`, the path `bar/lorem.js` should exist relative to the project root.
-    if (resolvesTo.startsWith(packagePath)) {
+    // For example if the current package is a module named foo and the import resolves like `modules/foo/bar/lorem.js`, the path `bar/lorem.js` should exist relative to the project root. A package like `modules/foo-extra` is another package even though it starts the same.
+    if (isWithin(resolvesTo, packagePath)) {
         // If the import points back to the current package, find it locally.
-        const projectRootRelative = path.relative(resolvesTo, packagePath);
+        const projectRootRelative = path.relative(packagePath, resolvesTo);
+        const localPath = path.join(
+            pluginData.projectRoot,
+            projectRootRelative
+        );
 
         const outputData = {
-            path: path.join(pluginData.projectRoot, projectRootRelative),
+            path: localPath,
             namespace: "file",
+            watchFiles: [localPath],
         };
 
         log("Foundry relative, imports own package, output:", outputData);
@@ -86,33 +247,39 @@ export function onResolveTraversesUp(
     }
 
     // Other Foundry imports are "external", Foundry provides them so we don't bundle them.
-    const outputData = getFoundryImport(args, path.join(resolvesTo));
+    const outputData = await getFoundryImport(
+        pluginData,
+        build,
+        args,
+        path.join(resolvesTo)
+    );
 
     log("Foundry relative import, output:", outputData);
 
     return outputData;
 }
 
-export function onResolveAbsolute(
+export async function onResolveAbsolute(
     pluginData: PluginData,
+    build: PluginBuild,
     args: OnResolveArgs
-): OnResolveResult | undefined {
+): Promise<OnResolveResult | undefined> {
     const { pluginName, log } = pluginData;
 
-    const { base: importFile, dir: importDir } = nativePath.parse(
-        normalize(args.path)
-    );
+    // Entrypoints within the project, like those added from the manifest, are file system paths rather than Foundry imports.
     if (
         args.kind === "entry-point" &&
-        importFile === "module.json" &&
-        importDir === pluginData.projectRoot
+        isWithin(normalize(args.path), pluginData.projectRoot)
     ) {
         return undefined;
     }
 
     const { importPath } = getImportData(args, pluginData);
 
-    if (!pluginData.imports.rewriteRootImports) {
+    // A root URL in a stylesheet can only be one of Foundry's, it's made relative like any other so that it works with a `$ROUTE_PREFIX`.
+    const isCSS = args.kind === "url-token" || args.kind === "import-rule";
+
+    if (!pluginData.imports.rewriteRootImports && !isCSS) {
         return {
             errors: [
                 {
@@ -126,7 +293,12 @@ export function onResolveAbsolute(
 
     // getFoundry import expects a path relative to Foundry's root.
     // We can provide that by making this root path relative.
-    const output = getFoundryImport(args, path.join(".", importPath));
+    const output = await getFoundryImport(
+        pluginData,
+        build,
+        args,
+        path.join(".", importPath)
+    );
 
     log("Rewrote absolute path:", output);
 
@@ -188,14 +360,154 @@ export function normalize(p: string) {
     return normalizedPath.split(nativePath.sep).join("/");
 }
 
-function getFoundryImport(
+async function getFoundryImport(
+    pluginData: PluginData,
+    build: PluginBuild,
     args: OnResolveArgs,
     foundryRootRelative: string
-): OnResolveResult {
-    // TODO: Actually check if the file exists in Foundry.
+): Promise<OnResolveResult> {
+    const { pluginName, resolver } = pluginData;
+
+    const isCSS = args.kind === "url-token" || args.kind === "import-rule";
+
+    // CSS URLs may end with a query or fragment, like fonts do for old browsers, which isn't part of the file.
+    const [filePath] = isCSS
+        ? splitURLSuffix(foundryRootRelative)
+        : [foundryRootRelative];
+
+    // Imports into other modules or systems only work at runtime when that package is a dependency.
+    const dependencyCheck = await checkPackageDependency(
+        pluginData,
+        args.path,
+        filePath
+    );
+    if (
+        typeof dependencyCheck !== "undefined" &&
+        dependencyCheck.errors?.length !== 0
+    ) {
+        return dependencyCheck;
+    }
+
+    const withDependencyCheck = (result: OnResolveResult): OnResolveResult =>
+        typeof dependencyCheck === "undefined"
+            ? result
+            : {
+                  ...result,
+                  warnings: [
+                      ...(dependencyCheck.warnings ?? []),
+                      ...(result.warnings ?? []),
+                  ],
+                  watchFiles: [
+                      ...(dependencyCheck.watchFiles ?? []),
+                      ...(result.watchFiles ?? []),
+                  ],
+                  watchDirs: [
+                      ...(dependencyCheck.watchDirs ?? []),
+                      ...(result.watchDirs ?? []),
+                  ],
+              };
+
+    // Several versions of Foundry are reported on together, what's missing in versions outside of the manifest's compatibility is only a warning.
+    if (
+        pluginData.imports.checkImportsExist &&
+        pluginData.foundryTargets.length !== 0
+    ) {
+        const checked = await checkFoundryTargets(
+            pluginData,
+            args.path,
+            filePath
+        );
+        if (checked.errors?.length !== 0) {
+            return withDependencyCheck(checked);
+        }
+
+        const result = await getFoundryImportResult(
+            pluginData,
+            build,
+            args,
+            foundryRootRelative,
+            filePath,
+            isCSS
+        );
+
+        return withDependencyCheck({
+            ...checked,
+            ...result,
+            watchFiles: [
+                ...(checked.watchFiles ?? []),
+                ...(result.watchFiles ?? []),
+            ],
+        });
+    }
+
+    // The files that decide whether the import exists, used to watch for changes and invalidate cached resolutions.
+    const watchPaths =
+        pluginData.imports.checkImportsExist && resolver.canResolve
+            ? await resolver.getWatchPaths(filePath)
+            : { watchFiles: [], watchDirs: [] };
+
+    if (
+        pluginData.imports.checkImportsExist &&
+        resolver.canResolve &&
+        !(await resolver.exists(filePath))
+    ) {
+        // No location is given so that ESBuild points the error at the import statement itself.
+        return withDependencyCheck({
+            ...watchPaths,
+            errors: [
+                {
+                    pluginName,
+                    text: `Could not resolve ${JSON.stringify(
+                        args.path
+                    )} within Foundry`,
+                    detail: `The import resolves to ${JSON.stringify(
+                        filePath
+                    )} relative to Foundry's root which does not exist in the configured Foundry install.`,
+                },
+            ],
+        });
+    }
+
+    const result = await getFoundryImportResult(
+        pluginData,
+        build,
+        args,
+        foundryRootRelative,
+        filePath,
+        isCSS
+    );
+
+    return withDependencyCheck({
+        ...watchPaths,
+        ...result,
+        watchFiles: [...watchPaths.watchFiles, ...(result.watchFiles ?? [])],
+    });
+}
+
+/**
+ * @param filePath - The file the import points to, without any suffix a CSS URL has. External results carry it too so that the cache options apply to them like any other Foundry import.
+ */
+async function getFoundryImportResult(
+    pluginData: PluginData,
+    build: PluginBuild,
+    args: OnResolveArgs,
+    foundryRootRelative: string,
+    filePath: string,
+    isCSS: boolean
+): Promise<OnResolveResult> {
+    if (args.kind === "import-statement") {
+        return await getStaticFoundryImport(
+            pluginData,
+            build,
+            args,
+            foundryRootRelative
+        );
+    }
+
     // require-call and require-resolve omitted due to ESM requirements.
-    if (args.kind === "import-statement" || args.kind === "dynamic-import") {
+    if (args.kind === "dynamic-import") {
         return {
+            path: foundryRootRelative,
             namespace: "foundry-import",
             pluginData: {
                 foundryImport: foundryRootRelative,
@@ -204,19 +516,172 @@ function getFoundryImport(
         };
     }
 
+    // Stylesheets load Foundry files by URL so they're kept external, the path is made relative to the output CSS once it's known.
+    if (isCSS) {
+        return {
+            path: getCSSURLPlaceholder(foundryRootRelative),
+            external: true,
+            pluginData: { foundryImport: filePath },
+        };
+    }
+
     return {
         path: args.path,
         external: true,
+        pluginData: { foundryImport: filePath },
     };
 }
 
-export function onLoadFoundryImport(args: OnLoadArgs): OnLoadResult {
-    const foundryImport = args.pluginData.foundryImport as string;
+/**
+ * Checks the names a static import takes from a Foundry file are exported by it, reporting each one that's missing at the import. Without a Foundry install to scan, as in CI, the names imported are exported as they are and are only known to exist at runtime. Each set of names is its own module then so that every importer gets the names it asks for.
+ */
+async function getStaticFoundryImport(
+    pluginData: PluginData,
+    build: PluginBuild,
+    args: OnResolveArgs,
+    foundryImport: string
+): Promise<OnResolveResult> {
+    const { pluginName, resolver } = pluginData;
+
+    const importerContents =
+        args.namespace === "file" && args.importer !== ""
+            ? await fs.promises
+                  .readFile(args.importer, "utf-8")
+                  .catch(() => undefined)
+            : undefined;
+
+    // Which names are imported changes along with the importer.
+    const watchFiles =
+        typeof importerContents === "undefined" ? [] : [args.importer];
+    const importedNames =
+        typeof importerContents === "undefined"
+            ? []
+            : getImportedNames(importerContents, args.path);
+
+    if (!resolver.hasSources) {
+        const namedImports = importedNames
+            .filter((name) => name !== "default")
+            .sort();
+
+        return {
+            path:
+                namedImports.length === 0
+                    ? foundryImport
+                    : `${foundryImport}?exports=${namedImports.join(",")}`,
+            namespace: "foundry-import",
+            watchFiles,
+            pluginData: { foundryImport, namedImports },
+        };
+    }
+
+    const sourcePath = await resolver.getSourcePath(foundryImport);
+    const exportNames =
+        typeof sourcePath === "undefined"
+            ? undefined
+            : await getExportNames(pluginData, build, sourcePath);
+
+    // The module namespace stands in for a missing default export so it's always available.
+    const missing =
+        typeof exportNames === "undefined"
+            ? []
+            : importedNames.filter(
+                  (name) => name !== "default" && !exportNames.includes(name)
+              );
+    if (missing.length !== 0) {
+        // No location is given so that ESBuild points the error at the import statement itself.
+        return {
+            watchFiles,
+            errors: missing.map((name) => ({
+                pluginName,
+                text: `No export named ${JSON.stringify(
+                    name
+                )} in ${JSON.stringify(args.path)}`,
+                detail: `The import resolves to ${JSON.stringify(
+                    foundryImport
+                )} within Foundry which exports ${
+                    exportNames?.length === 0
+                        ? "nothing"
+                        : exportNames?.map((e) => JSON.stringify(e)).join(", ")
+                }.`,
+            })),
+        };
+    }
 
     return {
-        contents: `export default await import(getRoute(${JSON.stringify(
+        path: foundryImport,
+        namespace: "foundry-import",
+        watchFiles,
+        pluginData: { foundryImport },
+    };
+}
+
+/**
+ * Foundry imports are loaded at runtime so the module is re-exported from a dynamic import of the URL given by the configured route strategy. The names re-exported are found by scanning the file within the local Foundry install, without one they're the names the importer asked for.
+ */
+export async function onLoadFoundryImport(
+    pluginData: PluginData,
+    build: PluginBuild,
+    args: OnLoadArgs
+): Promise<OnLoadResult> {
+    const { pluginName, resolver } = pluginData;
+
+    const foundryImport = args.pluginData.foundryImport as string;
+
+    const sourcePath = resolver.hasSources
+        ? await resolver.getSourcePath(foundryImport)
+        : undefined;
+    const exportNames =
+        typeof sourcePath === "undefined"
+            ? undefined
+            : await getExportNames(pluginData, build, sourcePath);
+
+    // Without a Foundry install, as in CI, there's nothing to scan and so nothing to warn about.
+    const warnings = [];
+    if (resolver.hasSources && typeof exportNames === "undefined") {
+        warnings.push({
+            pluginName,
+            text: `Could not find the exports of ${JSON.stringify(
+                foundryImport
+            )}, only a default import is available`,
+            detail: "The file could not be found or read within the configured Foundry install.",
+        });
+    }
+
+    // Without a Foundry install the names are those the importers asked for, see `getStaticFoundryImport`.
+    const namedExports = resolver.hasSources
+        ? (exportNames ?? []).filter((name) => name !== "default")
+        : ((args.pluginData.namedImports ?? []) as string[]);
+
+    // The module namespace is the default export unless the module has a default export of its own, this is how Foundry imports have always been loaded.
+    const defaultExport = exportNames?.includes("default")
+        ? "__foundryImport.default"
+        : "__foundryImport";
+
+    // Export names are only ever used after `as` so that they can't collide with the local variables.
+    const lines = [
+        getRouteImportStatement("__foundryRoute"),
+        `const __foundryImport = await import(__foundryRoute(${JSON.stringify(
             foundryImport
-        )}))`,
+        )}));`,
+        `export default ${defaultExport};`,
+        ...namedExports.map(
+            (name, i) =>
+                `const __export${i} = __foundryImport[${JSON.stringify(name)}];`
+        ),
+    ];
+
+    if (namedExports.length !== 0) {
+        const exportList = namedExports
+            .map((name, i) => `__export${i} as ${JSON.stringify(name)}`)
+            .join(", ");
+
+        lines.push(`export { ${exportList} };`);
+    }
+
+    return {
+        contents: lines.join("\n"),
         loader: "js",
+        warnings,
+        watchFiles: typeof sourcePath === "undefined" ? [] : [sourcePath],
     };
 }
@@ -0,0 +1,189 @@
+import nativePath from "path";
+import type { OnResolveResult, PartialMessage } from "esbuild";
+
+import type { PluginData } from "./pluginData";
+
+const { posix: path } = nativePath;
+
+type DependencyType = "module" | "system";
+
+export type PackageDependency = {
+    type: DependencyType;
+    id: string;
+};
+
+/** How a package is related to the current package, "required" if it must be installed and "recommended" if it may be missing. */
+export type DeclaredRelationship = "required" | "recommended";
+
+const packageFolders: Record<string, DependencyType> = {
+    modules: "module",
+    systems: "system",
+};
+
+/**
+ * Finds the module or system a path relative to Foundry's root lies within, like `other-mod` for `modules/other-mod/api.js`.
+ */
+export function getPackageDependency(
+    foundryPath: string
+): PackageDependency | undefined {
+    const [folder, id, ...rest] = foundryPath.split("/");
+    const type = packageFolders[folder ?? ""];
+    if (typeof type === "undefined" || typeof id === "undefined") {
+        return undefined;
+    }
+
+    // The folder itself, like `modules/other-mod`, isn't a file within the package.
+    if (id === "" || rest.length === 0) {
+        return undefined;
+    }
+
+    return { type, id };
+}
+
+/**
+ * Reads how the manifest declares a package. Since v10 packages are declared in `relationships`, `systems` and `requires` being required and `recommends` recommended. Before v10 every package in `dependencies` is required. Dependencies are modules unless they say otherwise, except for `relationships.systems`. A world also requires its `system`.
+ */
+export function getDeclaredRelationship(
+    manifestJSON: Record<string, unknown>,
+    dependency: PackageDependency
+): DeclaredRelationship | undefined {
+    const relationships = (manifestJSON.relationships ?? {}) as Record<
+        string,
+        unknown
+    >;
+
+    const declares = (list: unknown, defaultType: DependencyType) =>
+        Array.isArray(list) &&
+        list.some(
+            (related) =>
+                typeof related === "object" &&
+                related !== null &&
+                (related.id ?? related.name) === dependency.id &&
+                (related.type ?? defaultType) === dependency.type
+        );
+
+    // A world is played with its system.
+    if (dependency.type === "system" && manifestJSON.system === dependency.id) {
+        return "required";
+    }
+
+    if (
+        declares(manifestJSON.dependencies, "module") ||
+        declares(relationships.requires, "module") ||
+        declares(relationships.systems, "system")
+    ) {
+        return "required";
+    }
+
+    if (declares(relationships.recommends, "module")) {
+        return "recommended";
+    }
+
+    return undefined;
+}
+
+/**
+ * Checks an import into another module or system is of a package the manifest depends upon. Importing from an undeclared package is an error as it fails for anyone without that package, a recommended package is only warned about. When imports are checked the package must also be installed in the configured Foundry, the file imported is checked like any other Foundry import.
+ *
+ * @param importPath - The import as written, for messages.
+ * @param foundryPath - The path relative to Foundry's root.
+ * @returns undefined when the import isn't into another package, including this one, or `checkDependencies` is disabled.
+ */
+export async function checkPackageDependency(
+    pluginData: PluginData,
+    importPath: string,
+    foundryPath: string
+): Promise<OnResolveResult | undefined> {
+    const { pluginName, resolver, cachedManifest } = pluginData;
+
+    if (!pluginData.imports.checkDependencies) {
+        return undefined;
+    }
+
+    const dependency = getPackageDependency(foundryPath);
+    if (typeof dependency === "undefined") {
+        return undefined;
+    }
+
+    // A package importing its own files doesn't depend on itself.
+    if (
+        dependency.type === pluginData.packageType &&
+        dependency.id === pluginData.packageName
+    ) {
+        return undefined;
+    }
+
+    const manifestFile = `${dependency.type}.json`;
+    const dependencyManifest = path.join(
+        `${dependency.type}s`,
+        dependency.id,
+        manifestFile
+    );
+
+    const watchPaths =
+        pluginData.imports.checkImportsExist && resolver.canResolve
+            ? await resolver.getWatchPaths(dependencyManifest)
+            : { watchFiles: [], watchDirs: [] };
+
+    // Whether the import is declared changes along with the manifest.
+    const watchFiles = [
+        nativePath.join(
+            pluginData.projectRoot,
+            `${pluginData.packageType}.json`
+        ),
+        ...watchPaths.watchFiles,
+    ];
+    const { watchDirs } = watchPaths;
+
+    const relationship = getDeclaredRelationship(
+        cachedManifest?.manifestJSON ?? {},
+        dependency
+    );
+    const described = `the ${dependency.type} ${JSON.stringify(dependency.id)}`;
+
+    const errors: PartialMessage[] = [];
+    const warnings: PartialMessage[] = [];
+    if (typeof relationship === "undefined") {
+        // No location is given so that ESBuild points the error at the import statement itself.
+        errors.push({
+            pluginName,
+            text: `Could not import ${JSON.stringify(
+                importPath
+            )} as ${described} is not a dependency`,
+            detail:
+                dependency.type === "system"
+                    ? `Add ${JSON.stringify(
+                          dependency.id
+                      )} to \`relationships.systems\` or \`relationships.requires\` in the manifest, or \`dependencies\` before v10.`
+                    : `Add ${JSON.stringify(
+                          dependency.id
+                      )} to \`relationships.requires\` in the manifest, or \`dependencies\` before v10.`,
+        });
+    } else if (relationship === "recommended") {
+        warnings.push({
+            pluginName,
+            text: `The import ${JSON.stringify(
+                importPath
+            )} is of ${described} which is only recommended`,
+            detail: "The import fails for anyone without it installed, consider moving it to `relationships.requires` or importing it dynamically and handling its absence.",
+        });
+    }
+
+    if (
+        pluginData.imports.checkImportsExist &&
+        resolver.canResolve &&
+        !(await resolver.exists(dependencyManifest))
+    ) {
+        errors.push({
+            pluginName,
+            text: `Could not import ${JSON.stringify(
+                importPath
+            )} as ${described} is not installed`,
+            detail: `Expected the manifest ${JSON.stringify(
+                dependencyManifest
+            )} in the configured Foundry Data folder.`,
+        });
+    }
+
+    return { errors, warnings, watchFiles, watchDirs };
+}
@@ -1,14 +1,25 @@
-import type { OnResolveResult } from "esbuild";
+import nativePath from "path";
+import type { Location } from "esbuild";
 
 import { getFoundryDataPath, getFoundryAppPath } from "./foundryConfig";
 import { FoundryResolver } from "./foundryResolver";
+import { normalize } from "./onResolve";
+import type { CachedResolve, Fingerprint } from "./cacheInvalidation";
+import type { CompiledPack } from "./foundryPacks";
+import type { DeployMode, DeployOptions } from "./deploy";
+import type { CopiedFile } from "./files";
+import {
+    getFoundryTargets,
+    type FoundryTarget,
+    type FoundryTargetOptions,
+} from "./foundryTargets";
 
 export const pluginName = "foundryResolve";
 
-export type PackageType = "module" | "system";
+export type PackageType = "module" | "system" | "world";
 
 export type Options = {
-    /** The type of the Foundry package, "module" or "system". */
+    /** The type of the Foundry package, "module", "system" or "world". A world's data, like its `.db` files, is never copied, deployed or released. */
     packageType: PackageType;
 
     /** The name of the module or system. */
@@ -17,31 +28,65 @@ export type Options = {
     /** Optional, allows fine grained control of how import resolving gets cached. By default every import gets cached. All options are relative to Foundry root. */
     cache?: CacheOptions;
 
-    /** Paths to Foundry related information. Do not use this setting if you simply want to configure this for your own setup instead use the environment variables FOUNDRY_DATA_PATH and FOUNDRY_RESOURCES_APP_PATH. This is intended for consumers of the plugin that already know where Foundry is. */
-    foundryPaths?: InputFoundryPaths;
+    /** Paths to Foundry related information. Do not use this setting if you simply want to configure this for your own setup instead use the environment variables FOUNDRY_DATA_PATH and FOUNDRY_RESOURCES_APP_PATH. This is intended for consumers of the plugin that already know where Foundry is.
+     *
+     * A list of installs or indexes, each labelled with its version, checks every Foundry import against all of them. Versions within the manifest's compatibility must have every file imported while other versions missing one are only warned about. The first is used for everything else, like finding the exports of Foundry imports. */
+    foundryPaths?: InputFoundryPaths | FoundryTargetOptions[];
+
+    /** Optional, the path to a Foundry index made by the index command, relative to the working directory. It's used in place of a Foundry install so that imports are checked the same way without one, for example in CI. */
+    foundryIndex?: string;
 
     /** Whether to check Foundry related paths resolve or not. This means if your module imports a file such as `../modules/package/file.xyz` it must exist in the local file system. Checks all by default, set to `false` to disable all checks. */
     importData?: Imports;
 
-    /** TODO Better CI Support, for now this option just disables checking imports. */
+    /** TODO Better CI Support, for now this option just disables checking imports unless a `foundryIndex` is given. */
     ci?: boolean;
 
+    /** Defaults to "getRoute", how Foundry paths are turned into URLs at runtime. "getRoute" uses Foundry's global `getRoute` which only exists once Foundry's scripts have loaded. "relative" finds Foundry's root relative to `import.meta.url` of the bundle, this works whether `$ROUTE_PREFIX` is set or not and before Foundry's scripts have loaded. Otherwise a module exporting a function from a Foundry path to a URL can be given, by default its default export is used. The module path is relative to the working directory. */
+    route?: RouteStrategy;
+
+    /** Optional, whether to add every local `esmodules`, `scripts` and `styles` import from the manifest as an ESBuild entrypoint. This makes the manifest the single source of truth for what gets built. The manifest is read once during setup so restart watch mode after adding entries to it. */
+    entrypointsFromManifest?: boolean;
+
+    /** Optional, how the files in the manifest's `languages` are checked. */
+    localization?: LocalizationOptions;
+
     /** Defaults to /\.(html|hbs)$/, matches which files counts as templates. This is required to ensure that the import value is correct. */
     templatesFilter?: RegExp;
 
+    /** Defaults to ["templates"], the directories relative to the project root whose templates are listed by the generated `foundry:templates` module. */
+    templatesDirs?: string[];
+
+    /** Defaults to false. Whether to parse every template at build time, reporting syntax errors and partials given by a path that don't exist. */
+    validateTemplates?: boolean;
+
+    /** Defaults to false. Whether template imports also export `template`, the template precompiled with Handlebars. This validates templates as well. The precompiled template uses Foundry's global `Handlebars` at runtime. */
+    precompileTemplates?: boolean;
+
+    /** Optional, globs relative to the project root of static files like icons, images, sounds or fonts that are mirrored into outdir with the same structure. Only changed files are copied and files no longer matching are removed from outdir. */
+    assets?: string[];
+
+    /** Optional, deploys the build into Foundry's Data folder at `Data/<packageType>s/<packageName>`. "symlink" links outdir there once while "copy" copies outdir there after every build. Whatever is already there is only replaced when it's this package, unless forced. Nothing is deployed in CI. */
+    deploy?: DeployMode | DeployOptions;
+
     /** Optional, whether to display debug logs or not. */
     debug?: boolean;
 };
 
-// TODO: Implement. Probably also have as a watch mode option that controls how to watch for changes.
+export type RouteStrategy =
+    | "relative"
+    | "getRoute"
+    | { module: string; export?: string };
+
+// TODO: Probably also have as a watch mode option that controls how to watch for changes.
 type CacheOptions = Partial<{
     /** Disables caching entirely if set to true. */
     disable: boolean;
 
-    /** Defaults to true. Whether to cache files from Foundry's Data folder. This may be useful if you are working */
+    /** Defaults to false. Whether to disable caching files from Foundry's Data folder. This may be useful if you are working on another module or system within the Data folder at the same time. */
     disableFoundryDataCache: boolean;
 
-    /** Defaults to true. Whether to cache files from resources/app in the Foundry folder installed. I am currently unsure of a use case for this because this is entirely Foundry controlled files. Unless the dependencies Foundry has are being changed you won't need this. It was easy to add though so it's here. */
+    /** Defaults to false. Whether to disable caching files from resources/app in the Foundry folder installed. I am currently unsure of a use case for this because this is entirely Foundry controlled files. Unless the dependencies Foundry has are being changed you won't need this. It was easy to add though so it's here. */
     disableFoundryApp: boolean;
 
     /** A list of files and folders that are included. If not set every file is cached. */
@@ -51,6 +96,14 @@ type CacheOptions = Partial<{
     excluded: string[];
 }>;
 
+type LocalizationOptions = {
+    /** Defaults to "en". Every other language is warned about when it's missing keys from this language or has keys it doesn't. */
+    baseLanguage?: string;
+
+    /** Defaults to true. Whether to warn about keys used with `game.i18n.localize`, `game.i18n.format` or `{{localize}}` that are not in the base language and about keys in the base language that are never used. */
+    checkKeys?: boolean;
+};
+
 type InputFoundryPaths = {
     /** The path to the data folder of Foundry which may be customized in the application. If not set this will be discovered automatically based upon platform, e.g. `~/.local/share/FoundryVTT` for Linux. Only in the case of discovering the system's default path will this attempt to read `Config/options.json` and discover the data path through the property `dataPath`. This is to mirror how Foundry searches for. */
     dataPath?: string;
@@ -68,6 +121,9 @@ type Imports = {
     /** Whether to rewrite root imports to be relative ones or not. */
     rewriteRootImports: boolean;
 
+    /** Defaults to true. Whether imports into another module or system must be of a package the manifest depends upon and that's installed. Disable this when, for example, an optional package is imported dynamically. */
+    checkDependencies?: boolean;
+
     /** Additional root files and folders show they exist. */
     additionalRoot: AdditionalRoot;
 };
@@ -81,8 +137,11 @@ type AdditionalRoot = {
 };
 
 type Entrypoints = {
-    js?: string;
-    css?: string;
+    /** The JS entrypoints relative to the project root, each is expected to be listed in the manifest's `esmodules` or `scripts`. */
+    js: string[];
+
+    /** The CSS entrypoints relative to the project root, each is expected to be listed in the manifest's `styles`. */
+    css: string[];
 };
 
 export type Log = (message?: string, ...optionalParams: unknown[]) => void;
@@ -92,20 +151,46 @@ export type PluginData = {
     packageName: string;
     pluginName: string;
     entrypoints: Entrypoints;
-    cacheOptions: CacheOptions;
+    cacheOptions: Required<CacheOptions>;
     foundryPaths?: InputFoundryPaths | undefined;
-    imports: Imports;
+
+    /** Every install or index imports are checked against when `foundryPaths` is a list, otherwise empty. */
+    foundryTargets: FoundryTarget[];
+    imports: Required<Imports>;
+    entrypointsFromManifest: boolean;
+    route: Required<RouteStrategy>;
+    localization: Required<LocalizationOptions>;
     templatesFilter: RegExp;
+    templatesDirs: string[];
+    validateTemplates: boolean;
+    precompileTemplates: boolean;
+    assets: string[];
+    deploy: DeployOptions | undefined;
     debug: boolean;
 
     projectRoot: string;
     outdir: string;
+
+    /** The version of the Foundry install, like "11.315". Undefined without an install or when it can't be read. */
+    foundryVersion: string | undefined;
     resolver: FoundryResolver;
-    onResolveCache: Record<string, Record<string, OnResolveResult | undefined>>;
+    onResolveCache: Record<string, Record<string, CachedResolve | undefined>>;
+    exportsCache: Record<
+        string,
+        { fingerprint: Fingerprint; exports: string[] } | undefined
+    >;
     cachedManifest?: {
         manifestJSON: Record<string, unknown>;
         localImports: string[];
+        packs: Record<string, CompiledPack>;
+        localizationKeys: Map<string, Partial<Location>> | undefined;
     };
+    manifestWatch: { watchFiles: string[]; watchDirs: string[] };
+    copiedAssets: Record<string, CopiedFile | undefined>;
+    assetsWatch: { watchFiles: string[]; watchDirs: string[] };
+
+    /** What the "copy" deploy mode has copied into the Data folder, relative to the package's folder there. */
+    deployedFiles: Record<string, CopiedFile | undefined>;
     log: Log;
 };
 
@@ -115,11 +200,23 @@ export function getPluginData(options: Options): PluginData {
         packageName,
         cache,
         importData,
+        entrypointsFromManifest,
+        route,
+        localization,
         templatesFilter,
+        templatesDirs,
+        validateTemplates,
+        precompileTemplates,
+        assets,
+        deploy,
         debug,
     } = options;
 
     const ci = !!options.ci;
+    const foundryIndex =
+        typeof options.foundryIndex === "undefined"
+            ? undefined
+            : normalize(nativePath.resolve(options.foundryIndex));
 
     const {
         disable,
@@ -129,31 +226,49 @@ export function getPluginData(options: Options): PluginData {
         excluded,
     } = cache ?? ({} as CacheOptions);
 
-    const { checkImportsExist, rewriteRootImports, additionalRoot } =
-        importData ?? {};
+    const {
+        checkImportsExist,
+        rewriteRootImports,
+        checkDependencies,
+        additionalRoot,
+    } = importData ?? {};
     const { globs, files } = additionalRoot ?? {};
 
     // eslint-disable-next-line no-console
     const log = debug ? console.log : () => {};
 
-    const { dataPath, appPath } = options.foundryPaths ?? {};
-    const foundryPaths = ci
-        ? undefined
-        : {
-              dataPath: getFoundryDataPath(dataPath, log),
-              appPath: getFoundryAppPath(appPath, log),
+    const foundryTargets = Array.isArray(options.foundryPaths)
+        ? getFoundryTargets(options.foundryPaths, files ?? [], ci, log)
+        : [];
+
+    let foundryPaths;
+    let resolver;
+    if (Array.isArray(options.foundryPaths)) {
+        const [primaryTarget] = foundryTargets;
+
+        foundryPaths = primaryTarget?.foundryPaths;
+        resolver = primaryTarget?.resolver ?? new FoundryResolver(undefined);
+    } else {
+        const { dataPath, appPath } = options.foundryPaths ?? {};
+        foundryPaths =
+            ci || typeof foundryIndex !== "undefined"
+                ? undefined
+                : {
+                      dataPath: getFoundryDataPath(dataPath, log),
+                      appPath: getFoundryAppPath(appPath, log),
 
-              ...(options.foundryPaths ?? {}),
-          };
+                      ...(options.foundryPaths ?? {}),
+                  };
 
-    const resolver = new FoundryResolver();
+        resolver = new FoundryResolver(foundryPaths, files, foundryIndex);
+    }
 
     return {
         packageType,
         packageName,
         pluginName,
         projectRoot: "",
-        entrypoints: {},
+        entrypoints: { js: [], css: [] },
         cacheOptions: {
             disable: !!disable,
             disableFoundryDataCache: !!disable || !!disableFoundryDataCache,
@@ -162,19 +277,55 @@ export function getPluginData(options: Options): PluginData {
             excluded: excluded ?? [],
         },
         onResolveCache: {},
+        exportsCache: {},
+        manifestWatch: { watchFiles: [], watchDirs: [] },
+        copiedAssets: {},
+        assetsWatch: { watchFiles: [], watchDirs: [] },
+        deployedFiles: {},
         imports: {
             checkImportsExist: !!checkImportsExist,
             rewriteRootImports: !!rewriteRootImports,
+            checkDependencies: checkDependencies ?? true,
             additionalRoot: {
                 globs: globs ?? [],
                 files: files ?? [],
             },
         },
         foundryPaths,
+        foundryTargets,
+        entrypointsFromManifest: !!entrypointsFromManifest,
+        route: getRouteStrategy(route),
+        localization: {
+            baseLanguage: localization?.baseLanguage ?? "en",
+            checkKeys: localization?.checkKeys ?? true,
+        },
         outdir: "",
+        foundryVersion: undefined,
         resolver,
         templatesFilter: templatesFilter ?? /\.(html|hbs)$/,
+        templatesDirs: templatesDirs ?? ["templates"],
+        validateTemplates: !!validateTemplates || !!precompileTemplates,
+        precompileTemplates: !!precompileTemplates,
+        assets: assets ?? [],
+        deploy: typeof deploy === "string" ? { mode: deploy } : deploy,
         debug: !!debug,
         log,
     };
 }
+
+function getRouteStrategy(
+    route: RouteStrategy | undefined
+): Required<RouteStrategy> {
+    if (typeof route === "undefined") {
+        return "getRoute";
+    }
+
+    if (typeof route === "string") {
+        return route;
+    }
+
+    return {
+        module: normalize(nativePath.resolve(route.module)),
+        export: route.export ?? "default",
+    };
+}
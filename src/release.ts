@@ -0,0 +1,184 @@
+import fs from "fs";
+import nativePath from "path";
+import { pipeline } from "stream/promises";
+import yazl from "yazl";
+
+import type { PackageType } from "./pluginData";
+import { normalize } from "./onResolve";
+import { getFilesRecursively, isWorldData } from "./files";
+
+const { posix: path } = nativePath;
+
+export type ReleaseOptions = {
+    /** The type of the Foundry package, "module", "system" or "world". */
+    packageType: PackageType;
+
+    /** Defaults to "dist", the build output containing the manifest written by the plugin. */
+    outdir?: string;
+
+    /** Defaults to "release", where the zip and the standalone manifest are written. */
+    releaseDir?: string;
+
+    /** Optional, the version to stamp into the manifest. Otherwise the manifest's own version is kept. */
+    version?: string;
+
+    /** Defaults to false. Whether to stamp the version of the `package.json` in the working directory into the manifest, `version` takes precedence. */
+    versionFromPackageJSON?: boolean;
+
+    /** Optional, a template for the manifest's `download` URL. `{id}`, `{version}` and `{packageType}` are replaced, for example `https://github.com/me/x/releases/download/v{version}/module.zip`. */
+    downloadURL?: string;
+
+    /** Optional, a template for the manifest's `manifest` URL with the same replacements as `downloadURL`. */
+    manifestURL?: string;
+};
+
+export type Release = {
+    /** The version stamped into the manifest. */
+    version: string;
+
+    /** The zip of outdir, named like `module.zip`. */
+    zipPath: string;
+
+    /** The copy of the manifest next to the zip, for hosting at the `manifest` URL. */
+    manifestPath: string;
+};
+
+/**
+ * Packages a built module or system for release. Outdir is zipped with the manifest at the root of the zip, the layout Foundry's installer expects. The manifest in the zip and the copy written next to it have their version and URLs stamped, the manifest in outdir is left alone.
+ */
+export async function packageRelease(
+    options: ReleaseOptions
+): Promise<Release> {
+    const {
+        packageType,
+        outdir = "dist",
+        releaseDir = "release",
+        downloadURL,
+        manifestURL,
+    } = options;
+
+    const manifestFile = `${packageType}.json`;
+
+    let manifestJSON;
+    try {
+        manifestJSON = JSON.parse(
+            await fs.promises.readFile(
+                nativePath.join(outdir, manifestFile),
+                "utf-8"
+            )
+        );
+    } catch (e) {
+        throw new Error(
+            `Could not read ${JSON.stringify(manifestFile)} in ${JSON.stringify(
+                outdir
+            )}, build the package first. ${
+                e instanceof Error ? e.message : String(e)
+            }`
+        );
+    }
+
+    const version = await getVersion(options, manifestJSON?.version);
+
+    // Since v10 packages are identified by `id`, before that `name`.
+    const id = String(manifestJSON.id ?? manifestJSON.name);
+    const fillTemplate = (template: string) =>
+        template
+            .replace(/\{id\}/g, id)
+            .replace(/\{version\}/g, version)
+            .replace(/\{packageType\}/g, packageType);
+
+    manifestJSON.version = version;
+    if (typeof downloadURL !== "undefined") {
+        manifestJSON.download = fillTemplate(downloadURL);
+    }
+
+    if (typeof manifestURL !== "undefined") {
+        manifestJSON.manifest = fillTemplate(manifestURL);
+    }
+
+    const manifestContents = JSON.stringify(manifestJSON, null, 4);
+
+    await fs.promises.mkdir(releaseDir, { recursive: true });
+
+    const manifestPath = nativePath.join(releaseDir, manifestFile);
+    await fs.promises.writeFile(manifestPath, manifestContents, "utf-8");
+
+    const zipPath = nativePath.join(releaseDir, `${packageType}.zip`);
+    await writeZip(
+        normalize(nativePath.resolve(outdir)),
+        normalize(nativePath.resolve(releaseDir)),
+        manifestFile,
+        manifestContents,
+        zipPath,
+        packageType === "world"
+    );
+
+    return { version, zipPath, manifestPath };
+}
+
+async function getVersion(
+    options: ReleaseOptions,
+    manifestVersion: unknown
+): Promise<string> {
+    if (typeof options.version !== "undefined") {
+        return options.version;
+    }
+
+    if (options.versionFromPackageJSON) {
+        const packageJSON = JSON.parse(
+            await fs.promises.readFile("package.json", "utf-8")
+        );
+        if (typeof packageJSON?.version !== "string") {
+            throw new Error(
+                `Expected "package.json" to have a version to release.`
+            );
+        }
+
+        return packageJSON.version;
+    }
+
+    // Versions used to be allowed to be numbers.
+    if (
+        typeof manifestVersion !== "string" &&
+        typeof manifestVersion !== "number"
+    ) {
+        throw new Error(
+            "The manifest has no version, give one to release or read it from package.json."
+        );
+    }
+
+    return String(manifestVersion);
+}
+
+/**
+ * Zips every file within outdir at the root of the zip, replacing the manifest with the stamped one. A release directory inside of outdir is skipped so that earlier releases aren't zipped into the next.
+ *
+ * @param isWorld - Whether to leave out the world's data, which ends up in outdir when it's deployed by a link.
+ */
+async function writeZip(
+    outdir: string,
+    releaseDir: string,
+    manifestFile: string,
+    manifestContents: string,
+    zipPath: string,
+    isWorld: boolean
+): Promise<void> {
+    const files = await getFilesRecursively(
+        outdir,
+        [],
+        (dirPath) => dirPath === releaseDir
+    );
+
+    const zip = new yazl.ZipFile();
+    for (const file of files) {
+        const zipName = path.relative(outdir, file);
+        if (zipName !== manifestFile && !(isWorld && isWorldData(zipName))) {
+            zip.addFile(file, zipName);
+        }
+    }
+
+    zip.addBuffer(Buffer.from(manifestContents, "utf-8"), manifestFile);
+    zip.end();
+
+    await pipeline(zip.outputStream, fs.createWriteStream(zipPath));
+}
@@ -0,0 +1,253 @@
+import fs from "fs";
+import Handlebars from "handlebars";
+import nativePath from "path";
+import type { Location, PartialMessage } from "esbuild";
+
+import type { PluginData } from "./pluginData";
+import { normalize } from "./onResolve";
+import { getTextLocation } from "./jsonLocations";
+
+const { posix: path } = nativePath;
+
+type ParseTemplateResult = {
+    errors: PartialMessage[];
+
+    /** The files and directories deciding whether the partials exist, so that creating a missing partial rebuilds in watch mode. */
+    watchFiles: string[];
+    watchDirs: string[];
+
+    /** The template compiled to a template specification, only when precompiling is enabled and the template parsed. */
+    precompiled?: string;
+};
+
+type TemplatePartial = {
+    name: string;
+
+    /** Where the name starts within the template. */
+    start: hbs.AST.Position;
+};
+
+// Handlebars doesn't expose the location of syntax errors on the error itself but its lexer is left where parsing stopped.
+type HandlebarsParser = {
+    lexer: { yylloc?: { first_line: number; first_column: number } };
+};
+
+/**
+ * Parses a template with Handlebars so that syntax errors are reported at build time rather than when Foundry first renders it. Every partial given by a path is checked to exist, either as a template of this package or as a file within the Foundry install.
+ *
+ * @param filePath - The absolute path of the template.
+ */
+export async function parseTemplate(
+    pluginData: PluginData,
+    text: string,
+    filePath: string
+): Promise<ParseTemplateResult> {
+    const { pluginName } = pluginData;
+
+    // Locations are given relative to the working directory like ESBuild's own messages.
+    const messageFile = normalize(nativePath.relative(process.cwd(), filePath));
+
+    let program;
+    try {
+        program = Handlebars.parse(text);
+    } catch (e) {
+        return {
+            errors: [
+                {
+                    pluginName,
+                    text: `Could not parse the template ${JSON.stringify(
+                        messageFile
+                    )}: ${getParseErrorText(e)}`,
+                    location: getParseErrorLocation(text, messageFile, e),
+                },
+            ],
+            watchFiles: [],
+            watchDirs: [],
+        };
+    }
+
+    const errors = [];
+    const watchFiles: string[] = [];
+    const watchDirs: string[] = [];
+    for (const partial of getPartials(program)) {
+        const checked = await checkPartial(pluginData, partial.name);
+        watchFiles.push(...checked.watchFiles);
+        watchDirs.push(...checked.watchDirs);
+
+        if (!checked.exists) {
+            errors.push({
+                pluginName,
+                text: `Could not resolve the partial ${JSON.stringify(
+                    partial.name
+                )}`,
+                location: getLineColumnLocation(
+                    text,
+                    messageFile,
+                    partial.start,
+                    partial.name.length
+                ),
+            });
+        }
+    }
+
+    if (errors.length !== 0 || !pluginData.precompileTemplates) {
+        return { errors, watchFiles, watchDirs };
+    }
+
+    return {
+        errors,
+        watchFiles,
+        watchDirs,
+        precompiled: Handlebars.precompile(text) as string,
+    };
+}
+
+function getParseErrorText(e: unknown): string {
+    if (!(e instanceof Error)) {
+        return String(e);
+    }
+
+    // Parse errors span several lines with the last saying what was expected while other errors end with their line and column like ` - 2:5`.
+    const lines = e.message.split("\n");
+    const lastLine = lines[lines.length - 1] as string;
+
+    return lines.length > 1 ? lastLine : lastLine.replace(/ - \d+:\d+$/, "");
+}
+
+function getParseErrorLocation(
+    text: string,
+    messageFile: string,
+    e: unknown
+): Partial<Location> {
+    const { lineNumber, column } = e as {
+        lineNumber?: number;
+        column?: number;
+    };
+    if (typeof lineNumber === "number" && typeof column === "number") {
+        return getLineColumnLocation(text, messageFile, {
+            line: lineNumber,
+            column,
+        });
+    }
+
+    const { yylloc } = (Handlebars as unknown as { Parser: HandlebarsParser })
+        .Parser.lexer;
+    if (typeof yylloc !== "undefined") {
+        return getLineColumnLocation(text, messageFile, {
+            line: yylloc.first_line,
+            column: yylloc.first_column,
+        });
+    }
+
+    return { file: messageFile };
+}
+
+/**
+ * Handlebars lines are 1-based and columns are 0-based and in characters.
+ */
+function getLineColumnLocation(
+    text: string,
+    messageFile: string,
+    position: hbs.AST.Position,
+    length = 1
+): Partial<Location> {
+    const lineOffset = text
+        .split("\n")
+        .slice(0, position.line - 1)
+        .reduce((offset, line) => offset + line.length + 1, 0);
+
+    return getTextLocation(
+        text,
+        messageFile,
+        lineOffset + position.column,
+        length
+    );
+}
+
+/**
+ * Finds every partial with a static name, like `{{> "modules/x/templates/part.hbs"}}` or `{{#> part}}`. Dynamic partials like `{{> (lookup . "name")}}` can't be known until rendering.
+ */
+function getPartials(node: unknown): TemplatePartial[] {
+    if (typeof node !== "object" || node === null) {
+        return [];
+    }
+
+    if (Array.isArray(node)) {
+        return node.flatMap((item) => getPartials(item));
+    }
+
+    const partials = Object.values(node).flatMap((value) => getPartials(value));
+
+    const { type, name } = node as { type?: string; name?: unknown };
+    if (type !== "PartialStatement" && type !== "PartialBlockStatement") {
+        return partials;
+    }
+
+    const {
+        type: nameType,
+        original,
+        loc,
+    } = name as {
+        type: string;
+        original: unknown;
+        loc: hbs.AST.SourceLocation;
+    };
+    if (
+        (nameType === "PathExpression" || nameType === "StringLiteral") &&
+        typeof original === "string"
+    ) {
+        // The location of a string literal includes its opening quote.
+        partials.unshift({
+            name: original,
+            start: {
+                line: loc.start.line,
+                column:
+                    loc.start.column + (nameType === "StringLiteral" ? 1 : 0),
+            },
+        });
+    }
+
+    return partials;
+}
+
+type CheckedPartial = {
+    exists: boolean;
+    watchFiles: string[];
+    watchDirs: string[];
+};
+
+/**
+ * Foundry registers templates as partials by their path, like `modules/x/templates/part.hbs`, other names are registered at runtime and can't be checked.
+ */
+async function checkPartial(
+    pluginData: PluginData,
+    name: string
+): Promise<CheckedPartial> {
+    if (!name.includes("/")) {
+        return { exists: true, watchFiles: [], watchDirs: [] };
+    }
+
+    const packagePrefix = `${pluginData.packageType}s/${pluginData.packageName}/`;
+    if (name.startsWith(packagePrefix)) {
+        const partialPath = path.join(
+            pluginData.projectRoot,
+            name.slice(packagePrefix.length)
+        );
+
+        const exists = await fs.promises.access(partialPath).then(
+            () => true,
+            () => false
+        );
+
+        return { exists, watchFiles: [partialPath], watchDirs: [] };
+    }
+
+    if (!pluginData.resolver.canResolve) {
+        return { exists: true, watchFiles: [], watchDirs: [] };
+    }
+
+    return {
+        exists: await pluginData.resolver.exists(name),
+        ...(await pluginData.resolver.getWatchPaths(name)),
+    };
+}
@@ -0,0 +1,117 @@
+import fs from "fs";
+import nativePath from "path";
+import type {
+    OnResolveArgs,
+    OnResolveResult,
+    OnLoadArgs,
+    OnLoadResult,
+} from "esbuild";
+
+import type { PluginData } from "./pluginData";
+import { normalize } from "./onResolve";
+import { getFilesRecursively } from "./files";
+
+const { posix: path } = nativePath;
+
+/** The import of the generated module listing every template of the package. */
+export const templatesImport = "foundry:templates";
+
+export const templatesImportFilter = /^foundry:templates$/;
+
+export function onResolveTemplatesModule(args: OnResolveArgs): OnResolveResult {
+    return {
+        path: args.path,
+        namespace: "foundry-templates",
+    };
+}
+
+/**
+ * Loads a module exporting `templatePaths`, the Foundry path of every template within `templatesDirs`, and `preloadTemplates(getPartialName)`. Each template is imported so that it goes through the same copying as any other template import.
+ *
+ * Foundry's `loadTemplates` registers every template as a partial named by its path, `getPartialName` optionally registers them under another name as well.
+ */
+export async function onLoadTemplatesModule(
+    pluginData: PluginData,
+    _args: OnLoadArgs
+): Promise<OnLoadResult> {
+    const watchDirs: string[] = [];
+    const templateFiles = await getTemplateFiles(pluginData, watchDirs);
+
+    pluginData.log(
+        `Generating ${JSON.stringify(templatesImport)} with templates:`,
+        templateFiles
+    );
+
+    const templateNames = templateFiles.map((_, i) => `__template${i}`);
+
+    const contents = [
+        ...templateFiles.map(
+            (templateFile, i) =>
+                `import ${templateNames[i]} from ${JSON.stringify(
+                    `./${path.relative(pluginData.projectRoot, templateFile)}`
+                )};`
+        ),
+        `export const templatePaths = [${templateNames.join(", ")}];`,
+        "export async function preloadTemplates(getPartialName) {",
+        "    const templates = await loadTemplates(templatePaths);",
+        "    if (typeof getPartialName === 'function') {",
+        "        templatePaths.forEach((templatePath, i) => Handlebars.registerPartial(getPartialName(templatePath), templates[i]));",
+        "    }",
+        "    return templates;",
+        "}",
+    ].join("\n");
+
+    return {
+        contents,
+        loader: "js",
+        resolveDir: pluginData.projectRoot,
+        watchDirs,
+    };
+}
+
+/**
+ * Finds every file matching `templatesFilter` within `templatesDirs`, so that stray files like documentation aren't listed. The output directory and dependencies are skipped.
+ *
+ * @param dirs - Every directory visited is added to this so that new templates are picked up in watch mode.
+ */
+async function getTemplateFiles(
+    pluginData: PluginData,
+    dirs: string[]
+): Promise<string[]> {
+    const outdir = normalize(pluginData.outdir);
+
+    const files = new Set<string>();
+    for (const templatesDir of pluginData.templatesDirs) {
+        const dirPath = normalize(
+            nativePath.join(pluginData.projectRoot, templatesDir)
+        );
+
+        const isDirectory = await fs.promises.stat(dirPath).then(
+            (stats) => stats.isDirectory(),
+            () => false
+        );
+        if (!isDirectory) {
+            // The directory may be created later, its parent is watched for that.
+            dirs.push(path.dirname(dirPath));
+
+            continue;
+        }
+
+        const dirFiles = await getFilesRecursively(
+            dirPath,
+            dirs,
+            (subdirPath) =>
+                subdirPath === outdir ||
+                path.basename(subdirPath) === "node_modules" ||
+                path.basename(subdirPath).startsWith(".")
+        );
+
+        for (const file of dirFiles) {
+            if (pluginData.templatesFilter.test(file)) {
+                files.add(file);
+            }
+        }
+    }
+
+    return [...files];
+}
@@ -0,0 +1,222 @@
+import fs from "fs";
+import { dump } from "js-yaml";
+import nativePath from "path";
+
+import type { PackageType } from "./pluginData";
+import { normalize } from "./onResolve";
+import { forEachManifestImports } from "./foundryManifest";
+import { documentExtensions, isPackSource } from "./foundryPacks";
+import { isWorldData } from "./files";
+
+const { posix: path } = nativePath;
+
+export type UnpackOptions = {
+    /** The type of the Foundry package, "module", "system" or "world". */
+    packageType: PackageType;
+
+    /** Defaults to the working directory, the directory containing the manifest. Pack paths are relative to it. */
+    projectRoot?: string;
+
+    /** Optional, the directory relative to the project root each pack is unpacked into a directory of, `items.db` is unpacked into `<sourceDir>/items`. Otherwise packs are unpacked next to themselves. Required for a world and must be outside of its `data` and `packs` folders, Foundry keeps the world's data there. */
+    sourceDir?: string;
+
+    /** Defaults to "json", the format each document is written in. */
+    format?: "json" | "yaml";
+
+    /** Defaults to false. Whether to remove every `_stats` property, these change whenever Foundry touches a document. */
+    stripStats?: boolean;
+
+    /** Defaults to false. Whether to remove every `sort` property, these change whenever documents are reordered within Foundry. */
+    stripSort?: boolean;
+};
+
+export type UnpackedPack = {
+    /** The `.db` file as written in the manifest. */
+    packPath: string;
+
+    /** The directory the documents were written to, relative to the project root. The manifest can point at this directory to compile it back into the pack. */
+    sourcePath: string;
+
+    /** Every document file written, relative to the project root. */
+    files: string[];
+};
+
+/**
+ * Unpacks every NeDB pack listed in the manifest into a directory of documents next to it, `packs/items.db` is unpacked into `packs/items`, or within `sourceDir` if given. Packs that are already directories, either sources or LevelDB databases, are skipped.
+ */
+export async function unpackPacks(
+    options: UnpackOptions
+): Promise<UnpackedPack[]> {
+    const {
+        packageType,
+        projectRoot = ".",
+        sourceDir,
+        format = "json",
+        stripStats = false,
+        stripSort = false,
+    } = options;
+
+    // Since v11 `packs/items` is the LevelDB database of a world's `packs/items.db` so documents are never unpacked among a world's data.
+    if (
+        packageType === "world" &&
+        (typeof sourceDir === "undefined" ||
+            isWorldData(path.join(normalize(sourceDir), "pack")))
+    ) {
+        throw new Error(
+            `Unpacking the packs of a world requires a sourceDir outside of the world's "data" and "packs" folders as Foundry keeps the world's data there.`
+        );
+    }
+
+    const manifestPath = nativePath.join(projectRoot, `${packageType}.json`);
+    const manifestJSON = JSON.parse(
+        await fs.promises.readFile(manifestPath, "utf-8")
+    );
+
+    const stripped = new Set([
+        ...(stripStats ? ["_stats"] : []),
+        ...(stripSort ? ["sort"] : []),
+    ]);
+
+    const unpacked: UnpackedPack[] = [];
+
+    await forEachManifestImports(
+        manifestJSON,
+        async (_keyPath, packPath, manifestKey) => {
+            if (
+                manifestKey !== "packs" ||
+                nativePath.extname(packPath) !== ".db"
+            ) {
+                return;
+            }
+
+            const contents = await fs.promises.readFile(
+                nativePath.join(projectRoot, packPath),
+                "utf-8"
+            );
+
+            const sourcePath =
+                typeof sourceDir === "undefined"
+                    ? packPath.slice(0, -".db".length)
+                    : path.join(
+                          normalize(sourceDir),
+                          path.basename(packPath, ".db")
+                      );
+            const documentsDir = nativePath.join(projectRoot, sourcePath);
+
+            await clearSourceDir(documentsDir);
+
+            const files = [];
+            for (const document of readNeDB(contents)) {
+                const fileName = `${getDocumentFileName(document)}.${format}`;
+                const strippedDocument = stripProperties(document, stripped);
+
+                await fs.promises.writeFile(
+                    nativePath.join(documentsDir, fileName),
+                    format === "json"
+                        ? `${JSON.stringify(strippedDocument, null, 4)}\n`
+                        : dump(strippedDocument, {
+                              noRefs: true,
+                              lineWidth: -1,
+                          }),
+                    "utf-8"
+                );
+
+                files.push(path.join(sourcePath, fileName));
+            }
+
+            unpacked.push({ packPath, sourcePath, files });
+        }
+    );
+
+    return unpacked;
+}
+
+/**
+ * Removes the documents of an earlier unpack so that deleted documents don't linger. Anything else in the directory is left alone.
+ */
+async function clearSourceDir(sourceDir: string): Promise<void> {
+    const exists = await fs.promises.access(sourceDir).then(
+        () => true,
+        () => false
+    );
+
+    if (exists && !(await isPackSource(sourceDir))) {
+        throw new Error(
+            `Could not unpack into ${JSON.stringify(
+                sourceDir
+            )} because it is not a directory of pack documents.`
+        );
+    }
+
+    await fs.promises.mkdir(sourceDir, { recursive: true });
+
+    for (const fileName of await fs.promises.readdir(sourceDir)) {
+        if (documentExtensions.has(nativePath.extname(fileName))) {
+            await fs.promises.rm(nativePath.join(sourceDir, fileName));
+        }
+    }
+}
+
+type NeDBDocument = Record<string, unknown> & { _id: string };
+
+/**
+ * NeDB only ever appends to its file, so a document may appear on several lines where the last one wins and deleted documents are marked with `$$deleted`.
+ */
+function readNeDB(contents: string): NeDBDocument[] {
+    const documents = new Map<string, NeDBDocument>();
+
+    for (const line of contents.split("\n")) {
+        if (line.trim() === "") {
+            continue;
+        }
+
+        const document = JSON.parse(line);
+
+        // Lines recording indexes have no `_id`.
+        if (typeof document._id !== "string") {
+            continue;
+        }
+
+        if (document.$$deleted === true) {
+            documents.delete(document._id);
+        } else {
+            documents.set(document._id, document);
+        }
+    }
+
+    return [...documents.values()];
+}
+
+/**
+ * The `_id` keeps the file name unique and stable, the name is only there to make the file recognizable.
+ */
+function getDocumentFileName(document: NeDBDocument): string {
+    const name =
+        typeof document.name === "string"
+            ? document.name
+                  .toLowerCase()
+                  .replace(/[^a-z0-9]+/g, "-")
+                  .replace(/^-|-$/g, "")
+            : "";
+
+    return name === "" ? document._id : `${name}.${document._id}`;
+}
+
+/**
+ * Removes the properties from the document and every document embedded within it.
+ */
+function stripProperties(value: unknown, properties: Set<string>): unknown {
+    if (Array.isArray(value)) {
+        return value.map((item) => stripProperties(item, properties));
+    }
+
+    if (typeof value !== "object" || value === null) {
+        return value;
+    }
+
+    return Object.fromEntries(
+        Object.entries(value)
+            .filter(([key]) => !properties.has(key))
+            .map(([key, item]) => [key, stripProperties(item, properties)])
+    );
+}
@@ -0,0 +1,104 @@
+import fs from "fs";
+import nativePath from "path";
+import os from "os";
+import { copyAssets } from "../src/assets";
+import { getPluginData } from "../src/pluginData";
+import { normalize } from "../src/onResolve";
+
+describe("copyAssets", () => {
+    let projectRoot: string;
+    let outdir: string;
+
+    const writeFile = (file: string, contents: string) => {
+        const filePath = nativePath.join(projectRoot, file);
+        fs.mkdirSync(nativePath.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, contents);
+    };
+
+    const readOutput = (file: string) =>
+        fs.readFileSync(nativePath.join(outdir, file), "utf-8");
+
+    beforeEach(() => {
+        const dir = normalize(
+            fs.mkdtempSync(nativePath.join(os.tmpdir(), "foundry-assets-"))
+        );
+        projectRoot = `${dir}/src`;
+        outdir = `${dir}/dist`;
+
+        writeFile("icons/a.svg", "a");
+        writeFile("icons/nested/b.svg", "b");
+        writeFile("icons/c.psd", "c");
+        writeFile("sounds/d.ogg", "d");
+    });
+
+    afterEach(() => {
+        fs.rmSync(nativePath.dirname(projectRoot), {
+            recursive: true,
+            force: true,
+        });
+    });
+
+    const getTestPluginData = (assets: string[]) => ({
+        ...getPluginData({
+            packageType: "module",
+            packageName: "test",
+            ci: true,
+            assets,
+        }),
+        projectRoot,
+        outdir,
+    });
+
+    test("mirrors matching files into outdir", async () => {
+        const pluginData = getTestPluginData(["icons/**/*.svg", "sounds/*"]);
+
+        expect(await copyAssets(pluginData)).toBeUndefined();
+
+        expect(readOutput("icons/a.svg")).toBe("a");
+        expect(readOutput("icons/nested/b.svg")).toBe("b");
+        expect(readOutput("sounds/d.ogg")).toBe("d");
+        expect(fs.existsSync(nativePath.join(outdir, "icons/c.psd"))).toBe(
+            false
+        );
+        expect(pluginData.assetsWatch.watchDirs).toContain(
+            `${projectRoot}/icons/nested`
+        );
+    });
+
+    test("skips unchanged files and removes deleted ones", async () => {
+        const pluginData = getTestPluginData(["icons/**/*.svg"]);
+        await copyAssets(pluginData);
+
+        // Changes made to outdir directly show whether a file was copied again.
+        fs.writeFileSync(nativePath.join(outdir, "icons/a.svg"), "stale");
+        // Only the modification time changes so the hash shows it's the same.
+        fs.utimesSync(nativePath.join(projectRoot, "icons/a.svg"), 1000, 1000);
+        fs.rmSync(nativePath.join(projectRoot, "icons/nested"), {
+            recursive: true,
+        });
+
+        await copyAssets(pluginData);
+
+        expect(readOutput("icons/a.svg")).toBe("stale");
+        expect(fs.existsSync(nativePath.join(outdir, "icons/nested"))).toBe(
+            false
+        );
+    });
+
+    test("copies unchanged files again when they're removed from outdir", async () => {
+        const pluginData = getTestPluginData(["icons/*.svg"]);
+        await copyAssets(pluginData);
+
+        fs.rmSync(nativePath.join(outdir, "icons/a.svg"));
+
+        await copyAssets(pluginData);
+
+        expect(readOutput("icons/a.svg")).toBe("a");
+    });
+
+    test("errors on globs outside of the project", async () => {
+        const result = await copyAssets(getTestPluginData(["../*.svg"]));
+
+        expect(result?.errors).toHaveLength(1);
+    });
+});
@@ -0,0 +1,66 @@
+import fs from "fs";
+import os from "os";
+import nativePath from "path";
+
+import { getPluginData } from "../src/pluginData";
+import {
+    getResolveDependencies,
+    invalidateResolveCache,
+} from "../src/cacheInvalidation";
+
+describe("invalidateResolveCache", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(
+            nativePath.join(os.tmpdir(), "foundry-invalidation-")
+        );
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test("evicts only resolutions whose files or directories changed", async () => {
+        const changedFile = nativePath.join(dir, "changed.js");
+        const unchangedFile = nativePath.join(dir, "unchanged.js");
+        const watchedDir = nativePath.join(dir, "watched");
+        fs.writeFileSync(changedFile, "");
+        fs.writeFileSync(unchangedFile, "");
+        fs.mkdirSync(watchedDir);
+
+        const pluginData = getPluginData({
+            packageType: "module",
+            packageName: "test",
+            ci: true,
+        });
+
+        const cache = async (importPath: string, result: object) => {
+            pluginData.onResolveCache["/project/main.js"] ??= {};
+            (pluginData.onResolveCache["/project/main.js"] ?? {})[importPath] =
+                {
+                    result,
+                    dependencies: await getResolveDependencies(result),
+                };
+        };
+
+        await cache("./changed.js", { watchFiles: [changedFile] });
+        await cache("./unchanged.js", { watchFiles: [unchangedFile] });
+        await cache("./watched", { watchDirs: [watchedDir] });
+        await cache("./missing.js", {
+            watchFiles: [nativePath.join(dir, "missing.js")],
+        });
+
+        const later = new Date(Date.now() + 10_000);
+        fs.utimesSync(changedFile, later, later);
+        fs.writeFileSync(nativePath.join(watchedDir, "added.js"), "");
+        fs.utimesSync(watchedDir, later, later);
+        fs.writeFileSync(nativePath.join(dir, "missing.js"), "");
+
+        await invalidateResolveCache(pluginData);
+
+        expect(
+            Object.keys(pluginData.onResolveCache["/project/main.js"] ?? {})
+        ).toEqual(["./unchanged.js"]);
+    });
+});
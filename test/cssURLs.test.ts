@@ -0,0 +1,182 @@
+import fs from "fs";
+import nativePath from "path";
+import os from "os";
+import type { BuildResult, OnResolveArgs, PluginBuild } from "esbuild";
+import { getCSSURLPlaceholder, rewriteCSSURLs } from "../src/cssURLs";
+import { getPluginData } from "../src/pluginData";
+import { normalize, onResolveAbsolute } from "../src/onResolve";
+
+describe("rewriteCSSURLs", () => {
+    let outdir: string;
+
+    beforeEach(() => {
+        outdir = fs.mkdtempSync(nativePath.join(os.tmpdir(), "foundry-css-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(outdir, { recursive: true, force: true });
+    });
+
+    const cases = [
+        ["main.css", "icons/svg/d20.svg", "../../icons/svg/d20.svg"],
+        ["styles/main.css", "ui/parchment.jpg", "../../../ui/parchment.jpg"],
+        [
+            "styles/main.css",
+            "fonts/x.woff2?v=1#iefix",
+            "../../../fonts/x.woff2?v=1#iefix",
+        ],
+        ["styles/main.css", "modules/other/a.png", "../../other/a.png"],
+        [
+            "styles/main.css",
+            "ui/my images/a (1).png",
+            "../../../ui/my%20images/a%20%281%29.png",
+        ],
+        ["main.css", `fonts/"it's".woff`, "../../fonts/%22it%27s%22.woff"],
+    ] as const;
+
+    test.each(cases)(
+        "given the output %p and the Foundry path %p, expect %p",
+        async (output, foundryPath, expected) => {
+            const outputFile = nativePath.join(outdir, output);
+            fs.mkdirSync(nativePath.dirname(outputFile), { recursive: true });
+            fs.writeFileSync(
+                outputFile,
+                `.a { background: url(${getCSSURLPlaceholder(foundryPath)}); }`
+            );
+
+            await rewriteCSSURLs(
+                {
+                    ...getPluginData({
+                        packageType: "module",
+                        packageName: "test",
+                        ci: true,
+                    }),
+                    outdir,
+                },
+                {
+                    errors: [],
+                    warnings: [],
+                    metafile: {
+                        inputs: {},
+                        outputs: {
+                            [nativePath.relative(process.cwd(), outputFile)]: {
+                                bytes: 0,
+                                inputs: {},
+                                imports: [],
+                                exports: [],
+                            },
+                        },
+                    },
+                } as BuildResult
+            );
+
+            expect(fs.readFileSync(outputFile, "utf-8")).toBe(
+                `.a { background: url(${expected}); }`
+            );
+        }
+    );
+
+    const getMetafile = (outputFile: string): BuildResult["metafile"] => ({
+        inputs: {},
+        outputs: {
+            [nativePath.relative(process.cwd(), outputFile)]: {
+                bytes: 0,
+                inputs: {},
+                imports: [],
+                exports: [],
+            },
+        },
+    });
+
+    test("rewrites the output files in memory with write: false", async () => {
+        const outputFile = nativePath.join(outdir, "styles", "main.css");
+        const text = `.a { background: url(${getCSSURLPlaceholder(
+            "ui/parchment.jpg"
+        )}); }`;
+
+        const result = {
+            errors: [],
+            warnings: [],
+            metafile: getMetafile(outputFile),
+            outputFiles: [
+                {
+                    path: outputFile,
+                    contents: Buffer.from(text, "utf-8"),
+                    text,
+                },
+            ],
+        } as BuildResult;
+
+        await rewriteCSSURLs(
+            {
+                ...getPluginData({
+                    packageType: "module",
+                    packageName: "test",
+                    ci: true,
+                }),
+                outdir,
+            },
+            result
+        );
+
+        const expected = ".a { background: url(../../../ui/parchment.jpg); }";
+        expect(result.outputFiles?.[0]?.text).toBe(expected);
+        expect(
+            Buffer.from(result.outputFiles?.[0]?.contents ?? []).toString()
+        ).toBe(expected);
+        expect(fs.existsSync(outputFile)).toBe(false);
+    });
+
+    test("treats root URLs as Foundry paths without rewriting root imports", async () => {
+        const projectRoot = normalize(nativePath.resolve("project"));
+        const pluginData = {
+            ...getPluginData({
+                packageType: "module",
+                packageName: "test",
+                ci: true,
+                importData: {
+                    checkImportsExist: false,
+                    rewriteRootImports: false,
+                    additionalRoot: { globs: [], files: [] },
+                },
+            }),
+            projectRoot,
+            outdir,
+        };
+
+        const args: OnResolveArgs = {
+            path: "/ui/parchment.jpg",
+            importer: `${projectRoot}/styles/main.css`,
+            namespace: "file",
+            resolveDir: `${projectRoot}/styles`,
+            kind: "url-token",
+            pluginData: undefined,
+        };
+        const resolved = await onResolveAbsolute(
+            pluginData,
+            {} as PluginBuild,
+            args
+        );
+        expect(resolved).toMatchObject({
+            path: getCSSURLPlaceholder("ui/parchment.jpg"),
+            external: true,
+        });
+
+        const outputFile = nativePath.join(outdir, "styles", "main.css");
+        fs.mkdirSync(nativePath.dirname(outputFile), { recursive: true });
+        fs.writeFileSync(
+            outputFile,
+            `.a { background: url(${resolved?.path ?? ""}); }`
+        );
+
+        await rewriteCSSURLs(pluginData, {
+            errors: [],
+            warnings: [],
+            metafile: getMetafile(outputFile),
+        } as BuildResult);
+
+        expect(fs.readFileSync(outputFile, "utf-8")).toBe(
+            ".a { background: url(../../../ui/parchment.jpg); }"
+        );
+    });
+});
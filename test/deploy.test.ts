@@ -0,0 +1,173 @@
+import fs from "fs";
+import nativePath from "path";
+import os from "os";
+import type { BuildResult } from "esbuild";
+import { deploy, type DeployOptions } from "../src/deploy";
+import { getPluginData } from "../src/pluginData";
+
+describe("deploy", () => {
+    let dir: string;
+    let outdir: string;
+    let target: string;
+
+    const result = { errors: [], warnings: [] } as unknown as BuildResult;
+
+    const getTestPluginData = (deployOptions: DeployOptions) => ({
+        ...getPluginData({
+            packageType: "module",
+            packageName: "test",
+            ci: true,
+        }),
+        foundryPaths: { appPath: "", dataPath: dir },
+        outdir,
+        deploy: deployOptions,
+    });
+
+    const writeManifest = (manifestDir: string, id: string) => {
+        fs.mkdirSync(manifestDir, { recursive: true });
+        fs.writeFileSync(
+            nativePath.join(manifestDir, "module.json"),
+            JSON.stringify({ id })
+        );
+    };
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(nativePath.join(os.tmpdir(), "foundry-deploy-"));
+        outdir = nativePath.join(dir, "dist");
+        target = nativePath.join(dir, "Data", "modules", "test");
+
+        writeManifest(outdir, "test");
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test("links outdir into the Data folder", async () => {
+        await deploy(getTestPluginData({ mode: "symlink" }), result);
+
+        expect(fs.realpathSync(target)).toBe(fs.realpathSync(outdir));
+    });
+
+    test("copies outdir over an earlier deploy of the package", async () => {
+        writeManifest(target, "test");
+        fs.writeFileSync(nativePath.join(target, "stale.js"), "");
+        fs.writeFileSync(nativePath.join(outdir, "main.js"), "");
+
+        await deploy(getTestPluginData({ mode: "copy" }), result);
+
+        expect(fs.readdirSync(target).sort()).toEqual([
+            "main.js",
+            "module.json",
+        ]);
+    });
+
+    test("only copies what changed since the last deploy", async () => {
+        const pluginData = getTestPluginData({ mode: "copy" });
+        fs.mkdirSync(nativePath.join(outdir, "scripts"));
+        fs.writeFileSync(nativePath.join(outdir, "scripts", "main.js"), "1");
+        fs.writeFileSync(nativePath.join(outdir, "scripts", "old.js"), "");
+
+        await deploy(pluginData, result);
+
+        // Marks the deployed files so that it's visible whether they're copied again.
+        // Whole seconds so that the modification times read back exactly.
+        const earlier = Math.floor(Date.now() / 1000) - 60;
+        const deployedTime = (...segments: string[]) =>
+            fs.statSync(nativePath.join(target, ...segments)).mtimeMs;
+        fs.utimesSync(nativePath.join(target, "module.json"), earlier, earlier);
+        fs.utimesSync(
+            nativePath.join(target, "scripts", "main.js"),
+            earlier,
+            earlier
+        );
+
+        const later = earlier + 120;
+        fs.writeFileSync(nativePath.join(outdir, "scripts", "main.js"), "2");
+        fs.utimesSync(
+            nativePath.join(outdir, "scripts", "main.js"),
+            later,
+            later
+        );
+        fs.rmSync(nativePath.join(outdir, "scripts", "old.js"));
+
+        await deploy(pluginData, result);
+
+        expect(deployedTime("module.json")).toBe(earlier * 1000);
+        expect(deployedTime("scripts", "main.js")).not.toBe(earlier * 1000);
+        expect(
+            fs.readFileSync(
+                nativePath.join(target, "scripts", "main.js"),
+                "utf-8"
+            )
+        ).toBe("2");
+        expect(fs.readdirSync(nativePath.join(target, "scripts"))).toEqual([
+            "main.js",
+        ]);
+    });
+
+    test("refuses to replace another package unless forced", async () => {
+        writeManifest(target, "other");
+
+        await expect(
+            deploy(getTestPluginData({ mode: "copy" }), result)
+        ).rejects.toThrow('it contains the package "other"');
+
+        await deploy(getTestPluginData({ mode: "copy", force: true }), result);
+
+        expect(
+            JSON.parse(
+                fs.readFileSync(nativePath.join(target, "module.json"), "utf-8")
+            )
+        ).toEqual({ id: "test" });
+    });
+
+    test("keeps a world's data when copying over it", async () => {
+        const worldTarget = nativePath.join(dir, "Data", "worlds", "test");
+        const writeWorld = (worldDir: string, actors: string) => {
+            fs.mkdirSync(nativePath.join(worldDir, "data"), {
+                recursive: true,
+            });
+            fs.writeFileSync(
+                nativePath.join(worldDir, "world.json"),
+                JSON.stringify({ id: "test" })
+            );
+            fs.writeFileSync(
+                nativePath.join(worldDir, "data", "actors.db"),
+                actors
+            );
+        };
+
+        writeWorld(worldTarget, "played");
+        fs.writeFileSync(nativePath.join(worldTarget, "stale.js"), "");
+        writeWorld(outdir, "built");
+
+        await deploy(
+            {
+                ...getTestPluginData({ mode: "copy" }),
+                packageType: "world",
+            },
+            result
+        );
+
+        expect(fs.existsSync(nativePath.join(worldTarget, "stale.js"))).toBe(
+            false
+        );
+        expect(
+            fs.readFileSync(
+                nativePath.join(worldTarget, "data", "actors.db"),
+                "utf-8"
+            )
+        ).toBe("played");
+
+        await expect(
+            deploy(
+                {
+                    ...getTestPluginData({ mode: "symlink", force: true }),
+                    packageType: "world",
+                },
+                result
+            )
+        ).rejects.toThrow("because it holds the world's data");
+    });
+});
@@ -0,0 +1,82 @@
+import fs from "fs";
+import os from "os";
+import nativePath from "path";
+import * as esbuild from "esbuild";
+import type { PluginBuild } from "esbuild";
+
+import { getPluginData } from "../src/pluginData";
+import { normalize } from "../src/onResolve";
+import { configureEntrypoints } from "../src/entrypoints";
+
+describe("configureEntrypoints", () => {
+    let dir: string;
+
+    const getBuild = (entryPoints: string[]) =>
+        ({
+            initialOptions: { entryPoints },
+            esbuild,
+        } as unknown as PluginBuild);
+
+    const getEntrypointsPluginData = () => ({
+        ...getPluginData({
+            packageType: "module",
+            packageName: "test",
+            ci: true,
+            entrypointsFromManifest: true,
+        }),
+        projectRoot: normalize(dir),
+    });
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(nativePath.join(os.tmpdir(), "foundry-entries-"));
+
+        fs.mkdirSync(nativePath.join(dir, "scripts"));
+        fs.mkdirSync(nativePath.join(dir, "styles"));
+        fs.writeFileSync(nativePath.join(dir, "scripts", "main.ts"), "");
+        fs.writeFileSync(nativePath.join(dir, "scripts", "compat.ts"), "");
+        fs.writeFileSync(nativePath.join(dir, "styles", "sheet.scss"), "");
+        fs.writeFileSync(
+            nativePath.join(dir, "module.json"),
+            JSON.stringify({
+                id: "test",
+                compatibility: { minimum: "11" },
+                // Listed by their output, ESBuild resolves them to their sources.
+                esmodules: ["scripts/main.js", "scripts/compat.js"],
+                styles: ["styles/sheet.scss"],
+            })
+        );
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test("adds every local import from the manifest", async () => {
+        const pluginData = getEntrypointsPluginData();
+        const build = getBuild([]);
+
+        await configureEntrypoints(pluginData, build);
+
+        expect(build.initialOptions.entryPoints).toEqual([
+            nativePath.join(normalize(dir), "scripts/main.ts"),
+            nativePath.join(normalize(dir), "scripts/compat.ts"),
+            nativePath.join(normalize(dir), "styles/sheet.scss"),
+        ]);
+        expect(pluginData.entrypoints).toEqual({
+            js: ["scripts/main.ts", "scripts/compat.ts"],
+            css: ["styles/sheet.scss"],
+        });
+    });
+
+    test("skips entrypoints that are already configured", async () => {
+        const pluginData = getEntrypointsPluginData();
+        const build = getBuild([nativePath.join(dir, "scripts", "main.ts")]);
+
+        await configureEntrypoints(pluginData, build);
+
+        expect(pluginData.entrypoints.js).toEqual([
+            "scripts/main.ts",
+            "scripts/compat.ts",
+        ]);
+    });
+});
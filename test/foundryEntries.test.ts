@@ -0,0 +1,111 @@
+import fs from "fs";
+import os from "os";
+import nativePath from "path";
+import type { PartialMessage } from "esbuild";
+
+import {
+    getFoundryLayout,
+    getFoundryRootDirEntries,
+} from "../src/foundryEntries";
+
+describe("getFoundryLayout", () => {
+    const layoutCases = [
+        ["9.280", 9, true],
+        ["10.291", 10, true],
+        ["11.315", 11, true],
+        ["13.345", 11, false],
+        ["0.8.9", 9, false],
+        [undefined, 9, false],
+    ] as const;
+
+    test.each(layoutCases)(
+        "given the version %p, expect the v%p layout, known: %p",
+        (version, layoutVersion, known) => {
+            expect(getFoundryLayout(version)).toMatchObject({
+                layoutVersion,
+                known,
+            });
+        }
+    );
+});
+
+describe("getFoundryRootDirEntries", () => {
+    let foundryDir: string;
+
+    const foundryPaths = () => ({
+        appPath: nativePath.join(foundryDir, "app"),
+        dataPath: nativePath.join(foundryDir, "data"),
+    });
+
+    beforeEach(() => {
+        foundryDir = fs.mkdtempSync(
+            nativePath.join(os.tmpdir(), "foundry-entries-")
+        );
+
+        for (const directory of ["css", "docs", "scripts", "unexpected"]) {
+            fs.mkdirSync(
+                nativePath.join(foundryDir, "app", "public", directory),
+                { recursive: true }
+            );
+        }
+
+        fs.mkdirSync(nativePath.join(foundryDir, "data", "Data"), {
+            recursive: true,
+        });
+    });
+
+    afterEach(() => {
+        fs.rmSync(foundryDir, { recursive: true, force: true });
+    });
+
+    test("warns about unexpected entries of a known version", async () => {
+        fs.writeFileSync(
+            nativePath.join(foundryDir, "app", "public", "unexpected.txt"),
+            ""
+        );
+
+        const warnings: PartialMessage[] = [];
+        const entries = await getFoundryRootDirEntries(
+            foundryPaths(),
+            getFoundryLayout("9.280"),
+            warnings
+        );
+
+        expect(entries.map((entry) => entry.destinationPath).sort()).toEqual([
+            "css",
+            "scripts",
+        ]);
+        expect(warnings.map((warning) => warning.text)).toEqual(
+            expect.arrayContaining([
+                'Found unexpected directory "unexpected" in Foundry\'s public folder',
+                'Found unexpected file "unexpected.txt" in Foundry\'s public folder',
+            ])
+        );
+    });
+
+    test("warns about missing node modules", async () => {
+        const warnings: PartialMessage[] = [];
+        await getFoundryRootDirEntries(
+            foundryPaths(),
+            getFoundryLayout("9.280"),
+            warnings
+        );
+
+        expect(warnings.map((warning) => warning.text)).toContain(
+            'Could not find "jquery/dist" in Foundry\'s node_modules'
+        );
+    });
+
+    test("includes unexpected directories of an unknown version", async () => {
+        const entries = await getFoundryRootDirEntries(
+            foundryPaths(),
+            getFoundryLayout("99.1")
+        );
+
+        expect(entries.map((entry) => entry.destinationPath).sort()).toEqual([
+            "css",
+            "scripts",
+            "unexpected",
+        ]);
+    });
+});
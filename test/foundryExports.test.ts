@@ -0,0 +1,33 @@
+import { getImportedNames } from "../src/foundryExports";
+
+describe("getImportedNames", () => {
+    const importedNamesCases = [
+        [`import foundry from "/scripts/foundry.js";`, ["default"]],
+        [`import { a, b as c } from "/scripts/foundry.js";`, ["a", "b"]],
+        [`import foundry, { a } from "/scripts/foundry.js";`, ["default", "a"]],
+        [`import * as foundry from "/scripts/foundry.js";`, []],
+        [`import foundry, * as ns from "/scripts/foundry.js";`, ["default"]],
+        [
+            `export { a, default as b } from "/scripts/foundry.js";`,
+            ["a", "default"],
+        ],
+        [`export * from "/scripts/foundry.js";`, []],
+        [`import { type A, a } from "/scripts/foundry.js";`, ["a"]],
+        [`import type { A } from "/scripts/foundry.js";`, []],
+        [`import {\n    a,\n    b,\n} from '/scripts/foundry.js';`, ["a", "b"]],
+        [`import { a } from "/scripts/other.js";`, []],
+        [
+            `import { a } from "/scripts/foundry.js";\nimport { b } from "/scripts/foundry.js";`,
+            ["a", "b"],
+        ],
+    ] as const;
+
+    test.each(importedNamesCases)(
+        "given %p, expect the names %p",
+        (contents, expected) => {
+            expect(getImportedNames(contents, "/scripts/foundry.js")).toEqual(
+                expected
+            );
+        }
+    );
+});
@@ -0,0 +1,122 @@
+import fs from "fs";
+import os from "os";
+import nativePath from "path";
+
+import { createFoundryIndex, stringifyFoundryIndex } from "../src/foundryIndex";
+import { FoundryResolver } from "../src/foundryResolver";
+
+describe("Foundry index", () => {
+    let foundryDir: string;
+    let indexPath: string;
+    let linkedDir: string;
+
+    const writeFile = (...segments: string[]) => {
+        const filePath = nativePath.join(foundryDir, ...segments);
+        fs.mkdirSync(nativePath.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, "");
+    };
+
+    beforeAll(async () => {
+        foundryDir = fs.mkdtempSync(
+            nativePath.join(os.tmpdir(), "foundry-index-")
+        );
+        indexPath = nativePath.join(foundryDir, "foundry-index.json");
+
+        fs.mkdirSync(nativePath.join(foundryDir, "app", "public", "docs"), {
+            recursive: true,
+        });
+        fs.writeFileSync(
+            nativePath.join(foundryDir, "app", "package.json"),
+            JSON.stringify({ version: "9.280" })
+        );
+        writeFile("app", "public", "scripts", "foundry.js");
+        writeFile("app", "public", "docs", "readme.md");
+        writeFile("app", "node_modules", "jquery", "dist", "jquery.min.js");
+        writeFile("data", "Data", "modules", "other", "scripts", "api.js");
+        writeFile("data", "Data", "worlds", "world", "world.json");
+
+        // Packages in development are usually linked into the Data folder.
+        linkedDir = fs.mkdtempSync(nativePath.join(os.tmpdir(), "linked-"));
+        fs.mkdirSync(nativePath.join(linkedDir, "scripts"));
+        fs.writeFileSync(nativePath.join(linkedDir, "module.json"), "{}");
+        fs.writeFileSync(nativePath.join(linkedDir, "scripts", "z.js"), "");
+        fs.symlinkSync(
+            linkedDir,
+            nativePath.join(foundryDir, "data", "Data", "modules", "linked"),
+            "dir"
+        );
+
+        const foundryIndex = await createFoundryIndex({
+            appPath: nativePath.join(foundryDir, "app"),
+            dataPath: nativePath.join(foundryDir, "data"),
+        });
+        fs.writeFileSync(indexPath, stringifyFoundryIndex(foundryIndex));
+    });
+
+    afterAll(() => {
+        fs.rmSync(foundryDir, { recursive: true, force: true });
+        fs.rmSync(linkedDir, { recursive: true, force: true });
+    });
+
+    test("lists every served file along with the version", () => {
+        expect(JSON.parse(fs.readFileSync(indexPath, "utf-8"))).toEqual({
+            version: "9.280",
+            app: { scripts: ["foundry.js", "jquery.min.js"] },
+            data: {
+                "modules/linked": ["module.json"],
+                "modules/linked/scripts": ["z.js"],
+                "modules/other/scripts": ["api.js"],
+            },
+        });
+    });
+
+    test("writes a line for each directory", () => {
+        expect(fs.readFileSync(indexPath, "utf-8")).toEqual(
+            [
+                "{",
+                '    "version": "9.280",',
+                '    "app": {',
+                '        "scripts": ["foundry.js","jquery.min.js"]',
+                "    },",
+                '    "data": {',
+                '        "modules/linked": ["module.json"],',
+                '        "modules/linked/scripts": ["z.js"],',
+                '        "modules/other/scripts": ["api.js"]',
+                "    }",
+                "}",
+                "",
+            ].join("\n")
+        );
+    });
+
+    const existsCases = [
+        ["scripts/foundry.js", true],
+        ["scripts/jquery.min.js", true],
+        ["modules/other/scripts/api.js", true],
+        ["modules/other", true],
+        ["modules/linked/scripts/z.js", true],
+        ["modules/linked", true],
+
+        ["docs/readme.md", false],
+        ["worlds/world/world.json", false],
+        ["modules/other/missing.js", false],
+    ] as const;
+
+    test.each(existsCases)(
+        "given the path %p, expect it to exist in the index to be %p",
+        async (foundryPath, expected) => {
+            const resolver = new FoundryResolver(undefined, [], indexPath);
+
+            expect(await resolver.exists(foundryPath)).toEqual(expected);
+        }
+    );
+
+    test("resolves without sources", async () => {
+        const resolver = new FoundryResolver(undefined, [], indexPath);
+
+        expect(resolver.canResolve).toEqual(true);
+        expect(resolver.hasSources).toEqual(false);
+        expect(await resolver.getVersion()).toEqual("9.280");
+        expect(await resolver.getRoot("modules/other")).toEqual("data");
+    });
+});
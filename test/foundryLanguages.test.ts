@@ -0,0 +1,77 @@
+import fs from "fs";
+import nativePath from "path";
+import os from "os";
+import { checkLanguages } from "../src/foundryLanguages";
+import { getPluginData } from "../src/pluginData";
+import { normalize } from "../src/onResolve";
+
+describe("checkLanguages", () => {
+    let projectRoot: string;
+
+    const writeLanguage = (lang: string, json: unknown) => {
+        fs.writeFileSync(
+            nativePath.join(projectRoot, `${lang}.json`),
+            typeof json === "string" ? json : JSON.stringify(json)
+        );
+    };
+
+    const check = async (...langs: string[]) =>
+        await checkLanguages(
+            {
+                ...getPluginData({
+                    packageType: "module",
+                    packageName: "test",
+                    ci: true,
+                }),
+                projectRoot: normalize(projectRoot),
+            },
+            {
+                languages: langs.map((lang) => ({
+                    lang,
+                    name: lang,
+                    path: `${lang}.json`,
+                })),
+            }
+        );
+
+    beforeEach(() => {
+        projectRoot = fs.mkdtempSync(
+            nativePath.join(os.tmpdir(), "foundry-languages-")
+        );
+    });
+
+    afterEach(() => {
+        fs.rmSync(projectRoot, { recursive: true, force: true });
+    });
+
+    test("treats nested and flat keys the same", async () => {
+        writeLanguage("en", { A: { B: "", C: { D: "" } } });
+        writeLanguage("de", { "A.B": "", A: { "C.D": "" } });
+
+        const { errors, warnings } = await check("en", "de");
+
+        expect(errors).toEqual([]);
+        expect(warnings).toEqual([]);
+    });
+
+    test("warns about missing and extra keys", async () => {
+        writeLanguage("en", { A: { B: "", C: "" } });
+        writeLanguage("de", { A: { B: "", D: "" } });
+
+        const { warnings } = await check("en", "de");
+
+        expect(warnings.map(({ text }) => text)).toEqual([
+            'The language "de" is missing 1 key from "en": A.C',
+            'The language "de" has 1 key not in "en": A.D',
+        ]);
+    });
+
+    test("fails on malformed JSON", async () => {
+        writeLanguage("en", '{ "A": "", }');
+
+        const { errors } = await check("en");
+
+        expect(errors).toHaveLength(1);
+        expect(errors[0]?.location).toMatchObject({ line: 1, column: 11 });
+    });
+});
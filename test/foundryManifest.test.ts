@@ -0,0 +1,211 @@
+import fs from "fs";
+import os from "os";
+import nativePath from "path";
+import type { Metafile, PluginBuild } from "esbuild";
+
+import { getPluginData } from "../src/pluginData";
+import { normalize } from "../src/onResolve";
+import {
+    getInputsToOutputs,
+    getUnlistedEntrypointWarnings,
+    setupManifest,
+} from "../src/foundryManifest";
+
+describe("getUnlistedEntrypointWarnings", () => {
+    const output = (entryPoint: string) => ({
+        bytes: 0,
+        inputs: { [entryPoint]: { bytesInOutput: 0 } },
+        imports: [],
+        exports: [],
+        entryPoint,
+    });
+
+    const metafile: Metafile = {
+        inputs: {},
+        outputs: {
+            "dist/scripts/main.js": output("src/scripts/main.ts"),
+            "dist/scripts/compat.js": output("src/scripts/compat.ts"),
+            "dist/styles/sheet.css": output("src/styles/sheet.scss"),
+        },
+    };
+
+    const getWarnedEntrypoints = (manifestJSON: Record<string, unknown>) => {
+        const pluginData = {
+            ...getPluginData({
+                packageType: "module",
+                packageName: "test",
+                ci: true,
+            }),
+            projectRoot: normalize(nativePath.resolve("src")),
+            outdir: nativePath.resolve("dist"),
+            entrypoints: {
+                js: ["scripts/main.ts", "scripts/compat.ts"],
+                css: ["styles/sheet.scss"],
+            },
+        };
+
+        return getUnlistedEntrypointWarnings(
+            pluginData,
+            manifestJSON,
+            getInputsToOutputs(pluginData, metafile)
+        ).map((warning) => warning.text);
+    };
+
+    test("accepts entrypoints listed by their source", () => {
+        expect(
+            getWarnedEntrypoints({
+                esmodules: ["scripts/main.ts"],
+                scripts: ["scripts/compat.ts"],
+                styles: ["styles/sheet.scss"],
+            })
+        ).toEqual([]);
+    });
+
+    test("accepts entrypoints listed by their output", () => {
+        expect(
+            getWarnedEntrypoints({
+                esmodules: ["scripts/main.js", "scripts/compat.js"],
+                styles: ["styles/sheet.css"],
+            })
+        ).toEqual([]);
+    });
+
+    test("warns about entrypoints that aren't listed", () => {
+        expect(
+            getWarnedEntrypoints({
+                esmodules: ["scripts/main.js"],
+                styles: ["scripts/compat.js"],
+            })
+        ).toEqual([
+            'The entrypoint "scripts/compat.ts" is not listed in "module.json"',
+            'The entrypoint "styles/sheet.scss" is not listed in "module.json"',
+        ]);
+    });
+});
+
+describe("setupManifest", () => {
+    let projectRoot: string;
+
+    // Manifest imports resolve to the file they name, like ESBuild resolves files that exist.
+    const build = {
+        resolve: (importPath: string, { resolveDir }: { resolveDir: string }) =>
+            Promise.resolve({
+                errors: [],
+                path: nativePath.join(resolveDir, importPath),
+            }),
+    } as unknown as PluginBuild;
+
+    const writeFile = (contents: string, ...segments: string[]) => {
+        const filePath = nativePath.join(projectRoot, ...segments);
+        fs.mkdirSync(nativePath.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, contents);
+    };
+
+    const getTestPluginData = () => ({
+        ...getPluginData({
+            packageType: "module",
+            packageName: "test",
+            ci: true,
+        }),
+        projectRoot,
+        outdir: `${projectRoot}/dist`,
+    });
+
+    beforeEach(() => {
+        projectRoot = normalize(
+            fs.mkdtempSync(nativePath.join(os.tmpdir(), "foundry-manifest-"))
+        );
+    });
+
+    afterEach(() => {
+        fs.rmSync(projectRoot, { recursive: true, force: true });
+    });
+
+    test("watches an invalid manifest and forgets the last valid one", async () => {
+        writeFile("{", "module.json");
+
+        const pluginData = {
+            ...getTestPluginData(),
+            cachedManifest: {
+                manifestJSON: { id: "test" },
+                localImports: [],
+                packs: {},
+                localizationKeys: undefined,
+            },
+        };
+        const result = await setupManifest(pluginData, build);
+
+        expect(result?.errors).toHaveLength(1);
+        expect(pluginData.cachedManifest).toBeUndefined();
+        expect(pluginData.manifestWatch).toEqual({
+            watchFiles: [`${projectRoot}/module.json`],
+            watchDirs: [],
+        });
+    });
+
+    test("watches the packs that fail to compile", async () => {
+        writeFile(
+            JSON.stringify({
+                id: "test",
+                title: "Test",
+                version: "1.0.0",
+                compatibility: { minimum: "11" },
+                packs: [
+                    {
+                        name: "spells",
+                        label: "Spells",
+                        path: "packs/spells",
+                        type: "Item",
+                    },
+                ],
+            }),
+            "module.json"
+        );
+        writeFile("{", "packs", "spells", "fireball.json");
+
+        const pluginData = getTestPluginData();
+        const result = await setupManifest(pluginData, build);
+
+        expect(result?.errors).toMatchObject([
+            { location: { file: expect.stringContaining("fireball.json") } },
+        ]);
+        expect(pluginData.manifestWatch).toEqual({
+            watchFiles: [
+                `${projectRoot}/module.json`,
+                `${projectRoot}/packs/spells/fireball.json`,
+            ],
+            watchDirs: [`${projectRoot}/packs/spells`],
+        });
+    });
+
+    test("watches the languages when a pack fails to compile", async () => {
+        writeFile(
+            JSON.stringify({
+                id: "test",
+                title: "Test",
+                version: "1.0.0",
+                compatibility: { minimum: "11" },
+                languages: [{ lang: "en", name: "English", path: "en.json" }],
+                packs: [
+                    {
+                        name: "spells",
+                        label: "Spells",
+                        path: "packs/spells",
+                        type: "Item",
+                    },
+                ],
+            }),
+            "module.json"
+        );
+        writeFile('{ "TEST.Title": "Test" }', "en.json");
+        writeFile("{", "packs", "spells", "fireball.json");
+
+        const pluginData = getTestPluginData();
+        const result = await setupManifest(pluginData, build);
+
+        expect(result?.errors).toHaveLength(1);
+        expect(pluginData.manifestWatch.watchFiles).toContain(
+            `${projectRoot}/en.json`
+        );
+    });
+});
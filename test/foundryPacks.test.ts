@@ -0,0 +1,95 @@
+import fs from "fs";
+import nativePath from "path";
+import os from "os";
+import { compilePack, getStableId, isPackSource } from "../src/foundryPacks";
+import { getPluginData } from "../src/pluginData";
+import { normalize } from "../src/onResolve";
+
+describe("compilePack", () => {
+    let projectRoot: string;
+
+    const writeFile = (contents: string, ...segments: string[]) => {
+        const filePath = nativePath.join(projectRoot, ...segments);
+        fs.mkdirSync(nativePath.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, contents);
+    };
+
+    const getTestPluginData = () => ({
+        ...getPluginData({
+            packageType: "module",
+            packageName: "test",
+            ci: true,
+        }),
+        projectRoot: normalize(projectRoot),
+    });
+
+    beforeAll(() => {
+        projectRoot = fs.mkdtempSync(
+            nativePath.join(os.tmpdir(), "foundry-packs-")
+        );
+
+        writeFile('{ "name": "Fireball" }', "packs", "spells", "fireball.json");
+        writeFile(
+            "name: Shield\n",
+            "packs",
+            "spells",
+            "abjuration",
+            "shield.yml"
+        );
+        writeFile(
+            "_id: abcdefghijklmnop\nname: Light\n",
+            "packs",
+            "spells",
+            "light.yaml"
+        );
+        writeFile("", "packs", "items", "CURRENT");
+    });
+
+    afterAll(() => {
+        fs.rmSync(projectRoot, { recursive: true, force: true });
+    });
+
+    const isPackSourceCases = [
+        ["packs/spells", true],
+        ["packs/items", false],
+        ["packs/missing", false],
+        ["packs/spells/fireball.json", false],
+    ] as const;
+
+    test.each(isPackSourceCases)(
+        "given the pack %p, expect it being a source directory to be %p",
+        async (packPath, expected) => {
+            expect(
+                await isPackSource(nativePath.join(projectRoot, packPath))
+            ).toEqual(expected);
+        }
+    );
+
+    test("compiles every document into one line each", async () => {
+        const { pack, errors } = await compilePack(
+            getTestPluginData(),
+            "packs/spells"
+        );
+
+        expect(errors).toEqual([]);
+        expect(pack?.outputPath).toEqual("packs/spells.db");
+        expect(pack?.contents).toEqual(
+            [
+                `{"_id":"${getStableId(
+                    "abjuration/shield.yml"
+                )}","name":"Shield"}`,
+                `{"_id":"${getStableId("fireball.json")}","name":"Fireball"}`,
+                `{"_id":"abcdefghijklmnop","name":"Light"}`,
+                "",
+            ].join("\n")
+        );
+    });
+
+    test("generates ids in the format Foundry uses", () => {
+        const id = getStableId("fireball.json");
+
+        expect(id).toMatch(/^[a-zA-Z0-9]{16}$/);
+        expect(getStableId("fireball.json")).toEqual(id);
+        expect(getStableId("shield.yml")).not.toEqual(id);
+    });
+});
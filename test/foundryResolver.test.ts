@@ -1,4 +1,11 @@
-import { traversesUpDirectoryRegex } from "../src/foundryResolver";
+import fs from "fs";
+import os from "os";
+import nativePath from "path";
+
+import {
+    FoundryResolver,
+    traversesUpDirectoryRegex,
+} from "../src/foundryResolver";
 
 describe("traversesUpDirectoryRegex", () => {
     const traversesUpDirectoryCases = [
@@ -34,3 +41,102 @@ describe("traversesUpDirectoryRegex", () => {
         }
     );
 });
+
+describe("FoundryResolver", () => {
+    const publicDirectories = [
+        "cards",
+        "css",
+        "docs",
+        "fonts",
+        "icons",
+        "lang",
+        "scripts",
+        "sounds",
+        "ui",
+    ];
+
+    const nodeModules = [
+        "handlebars/dist",
+        "handlebars-intl/dist",
+        "jquery/dist",
+        "pixi.js/dist/browser",
+        "pixi-particles/dist",
+        "@pixi/graphics-smooth/dist",
+        "simple-peer",
+        "socket.io-client/dist",
+        "tinymce",
+    ];
+
+    let foundryDir: string;
+    let resolver: FoundryResolver;
+
+    const writeFile = (...segments: string[]) => {
+        const filePath = nativePath.join(foundryDir, ...segments);
+        fs.mkdirSync(nativePath.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, "");
+    };
+
+    beforeAll(() => {
+        foundryDir = fs.mkdtempSync(
+            nativePath.join(os.tmpdir(), "foundry-resolver-")
+        );
+
+        for (const directory of publicDirectories) {
+            fs.mkdirSync(
+                nativePath.join(foundryDir, "app", "public", directory),
+                { recursive: true }
+            );
+        }
+
+        for (const nodeModule of nodeModules) {
+            fs.mkdirSync(
+                nativePath.join(foundryDir, "app", "node_modules", nodeModule),
+                { recursive: true }
+            );
+        }
+
+        writeFile("app", "public", "scripts", "foundry.js");
+        writeFile("app", "public", "docs", "readme.md");
+        writeFile("app", "node_modules", "jquery", "dist", "jquery.min.js");
+        writeFile("data", "Data", "modules", "other", "api.js");
+
+        resolver = new FoundryResolver(
+            {
+                appPath: nativePath.join(foundryDir, "app"),
+                dataPath: nativePath.join(foundryDir, "data"),
+            },
+            ["extra/file.js"]
+        );
+    });
+
+    afterAll(() => {
+        fs.rmSync(foundryDir, { recursive: true, force: true });
+    });
+
+    const existsCases = [
+        ["scripts/foundry.js", true],
+        ["scripts/jquery.min.js", true],
+        ["modules/other/api.js", true],
+        ["modules/other", true],
+        ["extra/file.js", true],
+
+        ["scripts/missing.js", false],
+        ["docs/readme.md", false],
+        ["modules/missing/api.js", false],
+        ["scripts/jquery.min.js/foo", false],
+    ] as const;
+
+    test.each(existsCases)(
+        "given the path %p, expect it to exist to be %p",
+        async (foundryPath, expected) => {
+            expect(await resolver.exists(foundryPath)).toEqual(expected);
+        }
+    );
+
+    test("cannot resolve without Foundry paths", async () => {
+        const ciResolver = new FoundryResolver(undefined);
+
+        expect(ciResolver.canResolve).toEqual(false);
+        expect(await ciResolver.exists("scripts/foundry.js")).toEqual(false);
+    });
+});
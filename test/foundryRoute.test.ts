@@ -0,0 +1,116 @@
+import nativePath from "path";
+import vm from "vm";
+import type { OnLoadArgs } from "esbuild";
+
+import { getPluginData, type RouteStrategy } from "../src/pluginData";
+import { normalize } from "../src/onResolve";
+import { onLoadRoute } from "../src/foundryRoute";
+
+describe("onLoadRoute", () => {
+    const loadArgs: OnLoadArgs = {
+        path: "foundry:route",
+        namespace: "foundry-route",
+        suffix: "",
+        pluginData: undefined,
+    };
+
+    const loadRoute = (route?: RouteStrategy) =>
+        onLoadRoute(
+            getPluginData({
+                packageType: "module",
+                packageName: "test",
+                ci: true,
+                ...(typeof route === "undefined" ? {} : { route }),
+            }),
+            loadArgs
+        );
+
+    /**
+     * Evaluates the generated module as if it were served from `url` and returns its `foundryRoute`.
+     */
+    const getFoundryRoute = (
+        contents: string,
+        url: string,
+        globals: Record<string, unknown> = {}
+    ) =>
+        vm.runInNewContext(
+            `(() => {
+                ${contents
+                    .replace(/import\.meta\.url/g, JSON.stringify(url))
+                    .replace("export function foundryRoute", "return function")}
+            })()`,
+            { URL, ...globals }
+        ) as (foundryPath: string) => string;
+
+    test("uses Foundry's getRoute by default", () => {
+        const { contents } = loadRoute();
+        const url = "http://localhost:30000/modules/test/main.js";
+
+        expect(() =>
+            getFoundryRoute(contents as string, url)("scripts/foundry.js")
+        ).toThrow("Foundry's getRoute is not defined yet");
+
+        const foundryRoute = getFoundryRoute(contents as string, url, {
+            getRoute: (path: string) => `/prefix/${path}`,
+        });
+        expect(foundryRoute("scripts/foundry.js")).toBe(
+            "/prefix/scripts/foundry.js"
+        );
+    });
+
+    const relativeCases = [
+        [
+            "http://localhost:30000/modules/test/scripts/main.js",
+            "http://localhost:30000/scripts/foundry.js",
+        ],
+        [
+            "https://example.com/prefix/modules/test/main.js",
+            "https://example.com/prefix/scripts/foundry.js",
+        ],
+    ] as const;
+
+    test.each(relativeCases)(
+        "given the relative strategy served from %p, expect %p",
+        (url, expected) => {
+            const foundryRoute = getFoundryRoute(
+                loadRoute("relative").contents as string,
+                url
+            );
+
+            expect(foundryRoute("scripts/foundry.js")).toBe(expected);
+        }
+    );
+
+    test("errors when served from outside of the package with the relative strategy", () => {
+        const foundryRoute = getFoundryRoute(
+            loadRoute("relative").contents as string,
+            "http://localhost:30000/modules/other/main.js"
+        );
+
+        expect(() => foundryRoute("scripts/foundry.js")).toThrow(
+            "to be within /modules/test/"
+        );
+    });
+
+    const moduleCases: [RouteStrategy, string][] = [
+        [
+            { module: "routes/route.js" },
+            'export { default as foundryRoute } from "./route.js";',
+        ],
+        [
+            { module: "routes/route.js", export: "toURL" },
+            'export { toURL as foundryRoute } from "./route.js";',
+        ],
+    ];
+
+    test.each(moduleCases)(
+        "given the module strategy %p, expect %p",
+        (route, expected) => {
+            expect(loadRoute(route)).toEqual({
+                contents: expected,
+                resolveDir: normalize(nativePath.resolve("routes")),
+                loader: "js",
+            });
+        }
+    );
+});
@@ -0,0 +1,98 @@
+import fs from "fs";
+import os from "os";
+import nativePath from "path";
+
+import { getPluginData } from "../src/pluginData";
+import { checkFoundryTargets } from "../src/foundryTargets";
+import type { IndexedDirectories } from "../src/foundryIndex";
+
+describe("checkFoundryTargets", () => {
+    let dir: string;
+
+    const writeIndex = (version: string, app: IndexedDirectories) => {
+        const indexPath = nativePath.join(dir, `index-${version}.json`);
+        fs.writeFileSync(indexPath, JSON.stringify({ version, app, data: {} }));
+
+        return indexPath;
+    };
+
+    const getTargetsPluginData = (
+        compatibility: Record<string, string> = {
+            minimum: "10",
+            verified: "11",
+        }
+    ) => ({
+        ...getPluginData({
+            packageType: "module",
+            packageName: "test",
+            ci: true,
+            foundryPaths: [
+                {
+                    version: "10",
+                    index: writeIndex("10.291", { scripts: ["foundry.js"] }),
+                },
+                {
+                    version: "11",
+                    index: writeIndex("11.315", {
+                        scripts: ["foundry.js", "tours.js"],
+                    }),
+                },
+            ],
+        }),
+        cachedManifest: {
+            manifestJSON: { compatibility },
+            localImports: [],
+            packs: {},
+            localizationKeys: undefined,
+        },
+    });
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(nativePath.join(os.tmpdir(), "foundry-targets-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test("passes when every version has the file", async () => {
+        const result = await checkFoundryTargets(
+            getTargetsPluginData(),
+            "/scripts/foundry.js",
+            "scripts/foundry.js"
+        );
+
+        expect(result.errors).toEqual([]);
+        expect(result.warnings).toEqual([]);
+    });
+
+    test("errors with the compatible versions missing the file", async () => {
+        const result = await checkFoundryTargets(
+            getTargetsPluginData(),
+            "/scripts/tours.js",
+            "scripts/tours.js"
+        );
+
+        expect(result.errors).toMatchObject([
+            {
+                text: 'Could not resolve "/scripts/tours.js" within Foundry v10',
+                detail: expect.stringContaining("only exists in v11"),
+            },
+        ]);
+    });
+
+    test("warns about incompatible versions missing the file", async () => {
+        const result = await checkFoundryTargets(
+            getTargetsPluginData({ minimum: "11" }),
+            "/scripts/tours.js",
+            "scripts/tours.js"
+        );
+
+        expect(result.errors).toEqual([]);
+        expect(result.warnings).toMatchObject([
+            {
+                text: expect.stringContaining("within Foundry v10, which"),
+            },
+        ]);
+    });
+});
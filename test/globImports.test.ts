@@ -0,0 +1,94 @@
+import fs from "fs";
+import nativePath from "path";
+import os from "os";
+import type { OnLoadArgs, OnResolveArgs } from "esbuild";
+import { globFilter, onLoadGlob, onResolveGlob } from "../src/globImports";
+import { getPluginData } from "../src/pluginData";
+import { normalize } from "../src/onResolve";
+
+describe("glob imports", () => {
+    let projectRoot: string;
+
+    const getTestPluginData = () => ({
+        ...getPluginData({
+            packageType: "module",
+            packageName: "test",
+            ci: true,
+        }),
+        projectRoot,
+        outdir: nativePath.join(projectRoot, "dist"),
+    });
+
+    beforeAll(() => {
+        projectRoot = normalize(
+            fs.mkdtempSync(nativePath.join(os.tmpdir(), "foundry-glob-"))
+        );
+
+        for (const file of [
+            "templates/sheet.hbs",
+            "templates/parts/a.hbs",
+            "icons/a.webp",
+            "icons/b.txt",
+        ]) {
+            fs.mkdirSync(
+                nativePath.dirname(nativePath.join(projectRoot, file)),
+                {
+                    recursive: true,
+                }
+            );
+            fs.writeFileSync(nativePath.join(projectRoot, file), "");
+        }
+    });
+
+    afterAll(() => {
+        fs.rmSync(projectRoot, { recursive: true, force: true });
+    });
+
+    const filterCases = [
+        ["./templates/**/*.hbs", true],
+        ["../icons/*.{webp,svg}", true],
+        ["./templates/sheet.hbs", false],
+        ["icons/*.webp", false],
+    ] as const;
+
+    test.each(filterCases)(
+        "given the import %p, expect it to be a glob: %p",
+        (importPath, isGlob) => {
+            expect(globFilter.test(importPath)).toBe(isGlob);
+        }
+    );
+
+    test("leaves globs outside of the project to other resolvers", () => {
+        const result = onResolveGlob(getTestPluginData(), {
+            path: "../*.js",
+            resolveDir: projectRoot,
+        } as OnResolveArgs);
+
+        expect(result).toBeUndefined();
+    });
+
+    test("imports templates and copies other files", async () => {
+        const pluginData = getTestPluginData();
+
+        const templates = await onLoadGlob(pluginData, {
+            path: `${projectRoot}/templates/**/*.hbs`,
+        } as OnLoadArgs);
+        expect(templates.contents).toContain(
+            'import __glob0 from "./parts/a.hbs";'
+        );
+        expect(templates.contents).toContain('"sheet.hbs": __glob1,');
+
+        const icons = await onLoadGlob(pluginData, {
+            path: `${projectRoot}/icons/*.webp`,
+        } as OnLoadArgs);
+        expect(icons.contents).toContain(
+            '"a.webp": "modules/test/icons/a.webp",'
+        );
+        expect(icons.contents).not.toContain("b.txt");
+        expect(
+            fs.existsSync(
+                nativePath.join(projectRoot, "dist", "icons", "a.webp")
+            )
+        ).toBe(true);
+    });
+});
@@ -0,0 +1,48 @@
+import { getJSONLocator } from "../src/jsonLocations";
+
+describe("getJSONLocator", () => {
+    const text = [
+        "{",
+        '    "name": "fóo", "id": 1,',
+        '    "packs": [',
+        '        { "name": "a\\"b", "path": 1 },',
+        "        [true, null]",
+        "    ]",
+        "}",
+    ].join("\n");
+
+    const locate = getJSONLocator(text, "module.json");
+
+    const locationCases = [
+        [["name"], 2, 4, '"name"'],
+        [["id"], 2, 20, '"id"'],
+        [["packs"], 3, 4, '"packs"'],
+        [["packs", 0], 4, 8, "{"],
+        [["packs", 0, "path"], 4, 26, '"path"'],
+        [["packs", 1, 1], 5, 15, "null"],
+
+        // Missing paths fall back to their closest parent.
+        [["packs", 0, "label"], 4, 8, "{"],
+        [["missing"], 1, 0, "{"],
+    ] as const;
+
+    test.each(locationCases)(
+        "given the path %p, expect line %p column %p pointing at %p",
+        (jsonPath, line, column, pointsAt) => {
+            const location = locate([...jsonPath]);
+
+            expect(location).toMatchObject({ file: "module.json", line });
+
+            // Columns are in bytes, "ó" is two bytes long.
+            const lineText = Buffer.from(location.lineText ?? "");
+            const start = location.column ?? 0;
+
+            expect(start).toEqual(column);
+            expect(
+                lineText
+                    .subarray(start, start + (location.length ?? 0))
+                    .toString()
+            ).toEqual(pointsAt);
+        }
+    );
+});
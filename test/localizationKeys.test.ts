@@ -0,0 +1,108 @@
+import fs from "fs";
+import nativePath from "path";
+import os from "os";
+import type { BuildResult, PluginBuild } from "esbuild";
+import { checkLocalizationKeys } from "../src/localizationKeys";
+import { getPluginData } from "../src/pluginData";
+import { normalize } from "../src/onResolve";
+
+describe("checkLocalizationKeys", () => {
+    let projectRoot: string;
+
+    beforeAll(() => {
+        projectRoot = normalize(
+            fs.mkdtempSync(nativePath.join(os.tmpdir(), "foundry-i18n-"))
+        );
+
+        fs.writeFileSync(
+            nativePath.join(projectRoot, "main.ts"),
+            [
+                'game.i18n.localize("MYMOD.Title");',
+                "game.i18n.format('MYMOD.Typo', {});",
+                // eslint-disable-next-line no-template-curly-in-string
+                "game.i18n.localize(`MYMOD.Types.${type}`);",
+            ].join("\n")
+        );
+
+        fs.writeFileSync(
+            nativePath.join(projectRoot, "sheet.hbs"),
+            '{{localize "MYMOD.Label"}} {{x (localize "MYMOD.Missing")}}'
+        );
+    });
+
+    afterAll(() => {
+        fs.rmSync(projectRoot, { recursive: true, force: true });
+    });
+
+    test("warns about unknown and unused keys", async () => {
+        const pluginData = {
+            ...getPluginData({
+                packageType: "module",
+                packageName: "test",
+                ci: true,
+            }),
+            projectRoot,
+            cachedManifest: {
+                manifestJSON: {},
+                localImports: [],
+                packs: {},
+                localizationKeys: new Map(
+                    [
+                        "MYMOD.Title",
+                        "MYMOD.Label",
+                        "MYMOD.Types.Weapon",
+                        "MYMOD.Unused",
+                    ].map((key) => [key, { file: "en.json" }])
+                ),
+            },
+        };
+
+        const result = {
+            errors: [],
+            warnings: [],
+            metafile: {
+                inputs: {
+                    [nativePath.relative(
+                        process.cwd(),
+                        nativePath.join(projectRoot, "main.ts")
+                    )]: { bytes: 0, imports: [] },
+                    [`foundry-template:${projectRoot}/sheet.hbs`]: {
+                        bytes: 0,
+                        imports: [],
+                    },
+                },
+                outputs: {},
+            },
+        } as BuildResult;
+
+        await checkLocalizationKeys(
+            pluginData,
+            { initialOptions: { logLevel: "silent" } } as PluginBuild,
+            result
+        );
+
+        expect(
+            result.warnings.map(({ text, location }) => [
+                text,
+                location?.line,
+                location?.column,
+            ])
+        ).toEqual([
+            [
+                'The localization key "MYMOD.Typo" is not in the base language "en"',
+                2,
+                18,
+            ],
+            [
+                'The localization key "MYMOD.Missing" is not in the base language "en"',
+                1,
+                42,
+            ],
+            [
+                'The base language "en" has 1 key not used by any code or template: MYMOD.Unused',
+                1,
+                0,
+            ],
+        ]);
+    });
+});
@@ -0,0 +1,24 @@
+import { getManifestVersion } from "../src/manifestSchema";
+
+describe("getManifestVersion", () => {
+    const manifestVersionCases = [
+        [{ compatibility: { minimum: "10", verified: "10.291" } }, 9, 10],
+        [{ compatibility: { minimum: "10", verified: "11.315" } }, 9, 11],
+        [{ compatibility: { minimum: "12" } }, undefined, 11],
+        [{ compatibility: {} }, 11, 11],
+        [{ compatibility: {} }, 9, 10],
+        [{ minimumCoreVersion: "9", compatibleCoreVersion: "9.280" }, 11, 9],
+        [{ minimumCoreVersion: "0.8.9" }, undefined, 9],
+        [{}, 10, 10],
+        [{}, undefined, 9],
+    ] as const;
+
+    test.each(manifestVersionCases)(
+        "given the manifest %p and installed version %p, expect v%p",
+        (manifestJSON, installedVersion, expected) => {
+            expect(getManifestVersion(manifestJSON, installedVersion)).toEqual(
+                expected
+            );
+        }
+    );
+});
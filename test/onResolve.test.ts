@@ -0,0 +1,444 @@
+import fs from "fs";
+import os from "os";
+import nativePath from "path";
+import * as esbuild from "esbuild";
+import type { OnLoadArgs, OnResolveArgs, PluginBuild } from "esbuild";
+
+import { getPluginData, type Options } from "../src/pluginData";
+import {
+    cachedResolve,
+    normalize,
+    onLoadFoundryImport,
+    onResolveAbsolute,
+    onResolveTraversesUp,
+} from "../src/onResolve";
+
+type CacheOptions = NonNullable<Options["cache"]>;
+
+const build = { esbuild } as unknown as PluginBuild;
+
+describe("cachedResolve", () => {
+    let dir: string;
+
+    const getCachePluginData = (cache: CacheOptions) => {
+        const indexPath = nativePath.join(dir, "index.json");
+        fs.writeFileSync(
+            indexPath,
+            JSON.stringify({
+                version: "11.315",
+                app: { scripts: ["foundry.js"] },
+                data: { "modules/other": ["api.js"] },
+            })
+        );
+
+        return getPluginData({
+            packageType: "module",
+            packageName: "test",
+            ci: true,
+            foundryIndex: indexPath,
+            cache,
+        });
+    };
+
+    const resolveArgs = (importPath: string): OnResolveArgs => ({
+        path: importPath,
+        importer: "/project/scripts/main.js",
+        namespace: "file",
+        resolveDir: "/project/scripts",
+        kind: "import-statement",
+        pluginData: undefined,
+    });
+
+    /**
+     * Resolves the same Foundry import twice and counts how many times the callback was run.
+     */
+    const countResolves = async (cache: CacheOptions, foundryPath: string) => {
+        const callback = jest.fn(() => ({
+            path: foundryPath,
+            namespace: "foundry-import",
+            pluginData: { foundryImport: foundryPath },
+        }));
+        const onResolve = cachedResolve(getCachePluginData(cache), callback);
+
+        await onResolve(resolveArgs(`../../../${foundryPath}`));
+        await onResolve(resolveArgs(`../../../${foundryPath}`));
+
+        return callback.mock.calls.length;
+    };
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(nativePath.join(os.tmpdir(), "foundry-cache-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const cacheCases: [CacheOptions, string, number][] = [
+        [{}, "scripts/foundry.js", 1],
+        [{ disable: true }, "scripts/foundry.js", 2],
+        [{ disableFoundryDataCache: true }, "modules/other/api.js", 2],
+        [{ disableFoundryDataCache: true }, "scripts/foundry.js", 1],
+        [{ disableFoundryApp: true }, "scripts/foundry.js", 2],
+        [{ disableFoundryApp: true }, "modules/other/api.js", 1],
+        [{ excluded: ["modules/other"] }, "modules/other/api.js", 2],
+        [{ included: ["scripts"] }, "modules/other/api.js", 2],
+        [{ included: ["scripts"] }, "scripts/foundry.js", 1],
+    ];
+
+    test.each(cacheCases)(
+        "given the cache options %p and the import %p, expect %p resolves",
+        async (cache, foundryPath, expected) => {
+            expect(await countResolves(cache, foundryPath)).toBe(expected);
+        }
+    );
+
+    test("applies the cache options to external Foundry imports", async () => {
+        const callback = jest.fn(() => ({
+            path: "foundry-url:modules/other/api.js",
+            external: true,
+            pluginData: { foundryImport: "modules/other/api.js" },
+        }));
+        const onResolve = cachedResolve(
+            getCachePluginData({ disableFoundryDataCache: true }),
+            callback
+        );
+
+        await onResolve(resolveArgs("../../../modules/other/api.js"));
+        await onResolve(resolveArgs("../../../modules/other/api.js"));
+
+        expect(callback).toHaveBeenCalledTimes(2);
+    });
+});
+
+describe("onResolveAbsolute", () => {
+    const projectRoot = normalize(nativePath.resolve("project"));
+
+    const getAbsolutePluginData = (rewriteRootImports: boolean) => ({
+        ...getPluginData({
+            packageType: "module",
+            packageName: "test",
+            ci: true,
+            importData: {
+                checkImportsExist: false,
+                rewriteRootImports,
+                additionalRoot: { globs: [], files: [] },
+            },
+        }),
+        projectRoot,
+    });
+
+    const absoluteArgs = (
+        importPath: string,
+        kind: OnResolveArgs["kind"]
+    ): OnResolveArgs => ({
+        path: importPath,
+        importer: kind === "entry-point" ? "" : `${projectRoot}/main.js`,
+        namespace: "file",
+        resolveDir: projectRoot,
+        kind,
+        pluginData: undefined,
+    });
+
+    test("leaves entrypoints within the project to ESBuild", async () => {
+        expect(
+            await onResolveAbsolute(
+                getAbsolutePluginData(false),
+                build,
+                absoluteArgs(`${projectRoot}/scripts/main.ts`, "entry-point")
+            )
+        ).toBeUndefined();
+    });
+
+    test("treats entrypoints outside of the project as Foundry paths", async () => {
+        expect(
+            await onResolveAbsolute(
+                getAbsolutePluginData(true),
+                build,
+                absoluteArgs("/scripts/foundry.js", "entry-point")
+            )
+        ).toMatchObject({ path: "/scripts/foundry.js", external: true });
+    });
+
+    test("rewrites root imports relative to Foundry's root", async () => {
+        expect(
+            await onResolveAbsolute(
+                getAbsolutePluginData(true),
+                build,
+                absoluteArgs("/scripts/foundry.js", "import-statement")
+            )
+        ).toMatchObject({
+            namespace: "foundry-import",
+            pluginData: { foundryImport: "scripts/foundry.js" },
+        });
+    });
+
+    test("errors on root imports unless rewriting them is enabled", async () => {
+        expect(
+            await onResolveAbsolute(
+                getAbsolutePluginData(false),
+                build,
+                absoluteArgs("/scripts/foundry.js", "import-statement")
+            )
+        ).toMatchObject({
+            errors: [{ text: "Rewriting root imports is not enabled!" }],
+        });
+    });
+});
+
+describe("onResolveTraversesUp", () => {
+    let dir: string;
+
+    const getTraversalPluginData = (
+        manifestJSON: Record<string, unknown> = {}
+    ) => {
+        const indexPath = nativePath.join(dir, "index.json");
+        fs.writeFileSync(
+            indexPath,
+            JSON.stringify({
+                version: "11.315",
+                app: {},
+                data: { "modules/test-extra": ["module.json", "api.js"] },
+            })
+        );
+
+        return {
+            ...getPluginData({
+                packageType: "module",
+                packageName: "test",
+                foundryIndex: indexPath,
+                importData: {
+                    checkImportsExist: true,
+                    rewriteRootImports: false,
+                    additionalRoot: { globs: [], files: [] },
+                },
+            }),
+            projectRoot: normalize(nativePath.join(dir, "project")),
+            cachedManifest: {
+                manifestJSON,
+                localImports: [],
+                packs: {},
+                localizationKeys: undefined,
+            },
+        };
+    };
+
+    const traversalArgs = (importPath: string): OnResolveArgs => ({
+        path: importPath,
+        importer: nativePath.join(dir, "project", "main.js"),
+        namespace: "file",
+        resolveDir: nativePath.join(dir, "project"),
+        kind: "import-statement",
+        pluginData: undefined,
+    });
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(nativePath.join(os.tmpdir(), "foundry-up-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test("resolves imports of the package's own files locally", async () => {
+        const resolved = await onResolveTraversesUp(
+            getTraversalPluginData(),
+            build,
+            traversalArgs("../test/lib/api.js")
+        );
+
+        expect(resolved).toMatchObject({
+            path: normalize(nativePath.join(dir, "project", "lib", "api.js")),
+            namespace: "file",
+        });
+    });
+
+    test("checks packages whose id starts with the package's id as dependencies", async () => {
+        const resolved = await onResolveTraversesUp(
+            getTraversalPluginData(),
+            build,
+            traversalArgs("../test-extra/api.js")
+        );
+
+        expect(resolved?.errors).toMatchObject([
+            {
+                text: 'Could not import "../test-extra/api.js" as the module "test-extra" is not a dependency',
+            },
+        ]);
+    });
+
+    test("errors on files missing from an installed dependency", async () => {
+        const resolved = await onResolveTraversesUp(
+            getTraversalPluginData({
+                relationships: { requires: [{ id: "test-extra" }] },
+            }),
+            build,
+            traversalArgs("../test-extra/missing.js")
+        );
+
+        expect(resolved?.errors).toMatchObject([
+            {
+                text: 'Could not resolve "../test-extra/missing.js" within Foundry',
+            },
+        ]);
+    });
+});
+
+describe("Foundry imports", () => {
+    let dir: string;
+
+    const importerPath = () => nativePath.join(dir, "project", "main.js");
+
+    const getImportPluginData = (withSources: boolean) => {
+        const indexPath = nativePath.join(dir, "index.json");
+        fs.writeFileSync(
+            indexPath,
+            JSON.stringify({
+                version: "11.315",
+                app: { scripts: ["foundry.js"] },
+                data: {},
+            })
+        );
+
+        const options: Options = {
+            packageType: "module",
+            packageName: "test",
+            importData: {
+                checkImportsExist: true,
+                rewriteRootImports: true,
+                additionalRoot: { globs: [], files: [] },
+            },
+        };
+
+        return {
+            ...(withSources
+                ? getPluginData({
+                      ...options,
+                      foundryPaths: {
+                          appPath: nativePath.join(dir, "app"),
+                          dataPath: nativePath.join(dir, "data"),
+                      },
+                  })
+                : getPluginData({ ...options, foundryIndex: indexPath })),
+            projectRoot: normalize(nativePath.join(dir, "project")),
+        };
+    };
+
+    /**
+     * Resolves `/scripts/foundry.js` imported by a file with the given contents and loads the result if it resolved.
+     */
+    const importFoundry = async (withSources: boolean, contents: string) => {
+        fs.writeFileSync(importerPath(), contents);
+
+        const pluginData = getImportPluginData(withSources);
+        const resolved = await onResolveAbsolute(pluginData, build, {
+            path: "/scripts/foundry.js",
+            importer: importerPath(),
+            namespace: "file",
+            resolveDir: nativePath.dirname(importerPath()),
+            kind: "import-statement",
+            pluginData: undefined,
+        });
+
+        if (typeof resolved?.path === "undefined") {
+            return { resolved, loaded: undefined };
+        }
+
+        const loadArgs: OnLoadArgs = {
+            path: resolved.path,
+            namespace: "foundry-import",
+            suffix: "",
+            pluginData: resolved.pluginData,
+        };
+
+        return {
+            resolved,
+            loaded: await onLoadFoundryImport(pluginData, build, loadArgs),
+        };
+    };
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(nativePath.join(os.tmpdir(), "foundry-imports-"));
+
+        fs.mkdirSync(nativePath.join(dir, "project"));
+        fs.mkdirSync(nativePath.join(dir, "data", "Data"), { recursive: true });
+        fs.mkdirSync(nativePath.join(dir, "app", "public", "scripts"), {
+            recursive: true,
+        });
+        fs.writeFileSync(
+            nativePath.join(dir, "app", "public", "scripts", "foundry.js"),
+            "export const Actor = {};\nexport const Item = {};"
+        );
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test("re-exports named imports that Foundry exports", async () => {
+        const { resolved, loaded } = await importFoundry(
+            true,
+            `import { Actor } from "/scripts/foundry.js";`
+        );
+
+        expect(resolved?.errors ?? []).toEqual([]);
+        expect(resolved?.watchFiles).toContain(importerPath());
+        expect(loaded?.contents).toContain(
+            `export { __export0 as "Actor", __export1 as "Item" };`
+        );
+    });
+
+    test("makes the module namespace the default export", async () => {
+        const { resolved, loaded } = await importFoundry(
+            true,
+            `import foundry from "/scripts/foundry.js";`
+        );
+
+        expect(resolved?.errors ?? []).toEqual([]);
+        expect(loaded?.contents).toContain("export default __foundryImport;");
+    });
+
+    test("errors on named imports that Foundry doesn't export", async () => {
+        const { resolved } = await importFoundry(
+            true,
+            `import { Actor, Missing } from "/scripts/foundry.js";`
+        );
+
+        expect(resolved?.errors).toEqual([
+            expect.objectContaining({
+                text: 'No export named "Missing" in "/scripts/foundry.js"',
+                detail: 'The import resolves to "scripts/foundry.js" within Foundry which exports "Actor", "Item".',
+            }),
+        ]);
+    });
+
+    test("exports the named imports as they are without sources", async () => {
+        const { resolved, loaded } = await importFoundry(
+            false,
+            `import foundry, { Missing, Actor } from "/scripts/foundry.js";`
+        );
+
+        expect(resolved).toMatchObject({
+            path: "scripts/foundry.js?exports=Actor,Missing",
+            pluginData: {
+                foundryImport: "scripts/foundry.js",
+                namedImports: ["Actor", "Missing"],
+            },
+        });
+        expect(loaded?.contents).toContain("export default __foundryImport;");
+        expect(loaded?.contents).toContain(
+            `export { __export0 as "Actor", __export1 as "Missing" };`
+        );
+        expect(loaded?.warnings).toEqual([]);
+    });
+
+    test("only exports the default without sources or named imports", async () => {
+        const { resolved, loaded } = await importFoundry(
+            false,
+            `import foundry from "/scripts/foundry.js";`
+        );
+
+        expect(resolved?.path).toBe("scripts/foundry.js");
+        expect(loaded?.contents).not.toContain("export {");
+    });
+});
@@ -0,0 +1,177 @@
+import fs from "fs";
+import os from "os";
+import nativePath from "path";
+
+import { getPluginData } from "../src/pluginData";
+import {
+    checkPackageDependency,
+    getDeclaredRelationship,
+    getPackageDependency,
+} from "../src/packageDependencies";
+
+describe("getPackageDependency", () => {
+    const cases = [
+        ["modules/other-mod/api.js", { type: "module", id: "other-mod" }],
+        ["systems/dnd5e/dnd5e.mjs", { type: "system", id: "dnd5e" }],
+        ["modules/other-mod", undefined],
+        ["scripts/foundry.js", undefined],
+        ["worlds/test/data.json", undefined],
+    ] as const;
+
+    test.each(cases)("given %p, expect %p", (foundryPath, expected) => {
+        expect(getPackageDependency(foundryPath)).toEqual(expected);
+    });
+});
+
+describe("getDeclaredRelationship", () => {
+    const otherMod = { type: "module", id: "other-mod" } as const;
+
+    const cases = [
+        [{ dependencies: [{ name: "other-mod" }] }, "required"],
+        [{ relationships: { requires: [{ id: "other-mod" }] } }, "required"],
+        [
+            {
+                relationships: {
+                    recommends: [{ id: "other-mod", type: "module" }],
+                },
+            },
+            "recommended",
+        ],
+        [
+            {
+                relationships: {
+                    requires: [{ id: "other-mod", type: "system" }],
+                },
+            },
+            undefined,
+        ],
+        [{ relationships: { systems: [{ id: "other-mod" }] } }, undefined],
+        [{}, undefined],
+    ] as const;
+
+    test.each(cases)("given %j, expect %p", (manifestJSON, expected) => {
+        expect(getDeclaredRelationship(manifestJSON, otherMod)).toBe(expected);
+    });
+
+    test("a world requires its system", () => {
+        expect(
+            getDeclaredRelationship(
+                { system: "dnd5e" },
+                { type: "system", id: "dnd5e" }
+            )
+        ).toBe("required");
+    });
+});
+
+describe("checkPackageDependency", () => {
+    let dir: string;
+
+    const getDependencyPluginData = (
+        manifestJSON: Record<string, unknown>,
+        checkDependencies = true
+    ) => {
+        const indexPath = nativePath.join(dir, "index.json");
+        fs.writeFileSync(
+            indexPath,
+            JSON.stringify({
+                version: "11.315",
+                app: {},
+                data: { "modules/other-mod": ["module.json", "api.js"] },
+            })
+        );
+
+        return {
+            ...getPluginData({
+                packageType: "module",
+                packageName: "test",
+                ci: true,
+                foundryIndex: indexPath,
+                importData: {
+                    checkImportsExist: true,
+                    rewriteRootImports: false,
+                    checkDependencies,
+                    additionalRoot: { globs: [], files: [] },
+                },
+            }),
+            cachedManifest: {
+                manifestJSON,
+                localImports: [],
+                packs: {},
+                localizationKeys: undefined,
+            },
+        };
+    };
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(
+            nativePath.join(os.tmpdir(), "foundry-dependencies-")
+        );
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test("ignores imports of the package's own files", async () => {
+        expect(
+            await checkPackageDependency(
+                getDependencyPluginData({}),
+                "../../modules/test/api.js",
+                "modules/test/api.js"
+            )
+        ).toBeUndefined();
+    });
+
+    test("errors on undeclared packages", async () => {
+        const result = await checkPackageDependency(
+            getDependencyPluginData({}),
+            "../../modules/other-mod/api.js",
+            "modules/other-mod/api.js"
+        );
+
+        expect(result?.errors).toMatchObject([
+            {
+                text: 'Could not import "../../modules/other-mod/api.js" as the module "other-mod" is not a dependency',
+            },
+        ]);
+    });
+
+    test("allows undeclared packages when checking dependencies is disabled", async () => {
+        expect(
+            await checkPackageDependency(
+                getDependencyPluginData({}, false),
+                "../../modules/missing-mod/api.js",
+                "modules/missing-mod/api.js"
+            )
+        ).toBeUndefined();
+    });
+
+    test("warns on recommended packages", async () => {
+        const result = await checkPackageDependency(
+            getDependencyPluginData({
+                relationships: { recommends: [{ id: "other-mod" }] },
+            }),
+            "../../modules/other-mod/api.js",
+            "modules/other-mod/api.js"
+        );
+
+        expect(result?.errors).toEqual([]);
+        expect(result?.warnings).toHaveLength(1);
+    });
+
+    test("errors on packages that aren't installed", async () => {
+        const result = await checkPackageDependency(
+            getDependencyPluginData({
+                relationships: { requires: [{ id: "missing-mod" }] },
+            }),
+            "../../modules/missing-mod/api.js",
+            "modules/missing-mod/api.js"
+        );
+
+        expect(result?.errors).toMatchObject([
+            {
+                text: 'Could not import "../../modules/missing-mod/api.js" as the module "missing-mod" is not installed',
+            },
+        ]);
+    });
+});
@@ -0,0 +1,74 @@
+import fs from "fs";
+import nativePath from "path";
+import os from "os";
+import { packageRelease } from "../src/release";
+
+describe("packageRelease", () => {
+    let dir: string;
+    let outdir: string;
+    let releaseDir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(nativePath.join(os.tmpdir(), "foundry-release-"));
+        outdir = nativePath.join(dir, "dist");
+        releaseDir = nativePath.join(dir, "release");
+
+        fs.mkdirSync(nativePath.join(outdir, "scripts"), { recursive: true });
+        fs.writeFileSync(nativePath.join(outdir, "scripts", "main.js"), "");
+        fs.writeFileSync(
+            nativePath.join(outdir, "module.json"),
+            JSON.stringify({ id: "test", version: "1.0.0" })
+        );
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test("stamps the version and URLs into the released manifest", async () => {
+        const { version, manifestPath } = await packageRelease({
+            packageType: "module",
+            outdir,
+            releaseDir,
+            version: "1.1.0",
+            downloadURL:
+                "https://example.com/{id}/releases/v{version}/{packageType}.zip",
+            manifestURL: "https://example.com/{id}/module.json",
+        });
+
+        expect(version).toBe("1.1.0");
+        expect(JSON.parse(fs.readFileSync(manifestPath, "utf-8"))).toEqual({
+            id: "test",
+            version: "1.1.0",
+            download: "https://example.com/test/releases/v1.1.0/module.zip",
+            manifest: "https://example.com/test/module.json",
+        });
+
+        // The manifest in outdir is left as built.
+        expect(
+            JSON.parse(
+                fs.readFileSync(nativePath.join(outdir, "module.json"), "utf-8")
+            ).version
+        ).toBe("1.0.0");
+    });
+
+    test("zips outdir with the manifest at the root", async () => {
+        const { zipPath } = await packageRelease({
+            packageType: "module",
+            outdir,
+            releaseDir,
+        });
+
+        // File names are stored uncompressed within the zip's headers.
+        const zip = fs.readFileSync(zipPath).toString("latin1");
+        expect(zip).toContain("scripts/main.js");
+        expect(zip).toContain("module.json");
+        expect(zip).not.toContain("dist/");
+    });
+
+    test("errors without a built manifest", async () => {
+        await expect(
+            packageRelease({ packageType: "system", outdir, releaseDir })
+        ).rejects.toThrow('Could not read "system.json"');
+    });
+});
@@ -0,0 +1,87 @@
+import fs from "fs";
+import nativePath from "path";
+import os from "os";
+import { parseTemplate } from "../src/templateParsing";
+import { getPluginData } from "../src/pluginData";
+import { normalize } from "../src/onResolve";
+
+describe("parseTemplate", () => {
+    let projectRoot: string;
+
+    const getTestPluginData = (precompileTemplates = false) => ({
+        ...getPluginData({
+            packageType: "module",
+            packageName: "test",
+            ci: true,
+            precompileTemplates,
+        }),
+        projectRoot,
+    });
+
+    beforeAll(() => {
+        projectRoot = normalize(
+            fs.mkdtempSync(nativePath.join(os.tmpdir(), "foundry-templates-"))
+        );
+
+        fs.mkdirSync(nativePath.join(projectRoot, "templates"));
+        fs.writeFileSync(
+            nativePath.join(projectRoot, "templates", "part.hbs"),
+            ""
+        );
+    });
+
+    afterAll(() => {
+        fs.rmSync(projectRoot, { recursive: true, force: true });
+    });
+
+    const errorCases = [
+        ["<div>\n  {{foo bar=}}\n</div>", 2, 12],
+        ["{{#if x}}\n{{/each}}", 1, 3],
+        ['{{> "modules/test/templates/missing.hbs"}}', 1, 5],
+    ] as const;
+
+    test.each(errorCases)(
+        "given the template %p, expect an error at %p:%p",
+        async (template, line, column) => {
+            const { errors } = await parseTemplate(
+                getTestPluginData(),
+                template,
+                nativePath.join(projectRoot, "templates", "sheet.hbs")
+            );
+
+            expect(errors).toHaveLength(1);
+            expect(errors[0]?.location).toMatchObject({ line, column });
+        }
+    );
+
+    test("accepts partials of the package and named partials", async () => {
+        const { errors, precompiled } = await parseTemplate(
+            getTestPluginData(),
+            '{{> "modules/test/templates/part.hbs"}} {{> named}}',
+            nativePath.join(projectRoot, "templates", "sheet.hbs")
+        );
+
+        expect(errors).toEqual([]);
+        expect(precompiled).toBeUndefined();
+    });
+
+    test("watches missing partials so that creating them rebuilds", async () => {
+        const { watchFiles } = await parseTemplate(
+            getTestPluginData(),
+            '{{> "modules/test/templates/missing.hbs"}}',
+            nativePath.join(projectRoot, "templates", "sheet.hbs")
+        );
+
+        expect(watchFiles).toEqual([`${projectRoot}/templates/missing.hbs`]);
+    });
+
+    test("precompiles when enabled", async () => {
+        const { precompiled } = await parseTemplate(
+            getTestPluginData(true),
+            "<div>{{name}}</div>",
+            nativePath.join(projectRoot, "templates", "sheet.hbs")
+        );
+
+        expect(precompiled).toContain('"compiler"');
+    });
+});
@@ -0,0 +1,161 @@
+import fs from "fs";
+import os from "os";
+import nativePath from "path";
+import vm from "vm";
+import type { OnLoadArgs } from "esbuild";
+
+import { getPluginData } from "../src/pluginData";
+import { normalize } from "../src/onResolve";
+import { onLoadTemplatesModule } from "../src/templatesModule";
+
+describe("onLoadTemplatesModule", () => {
+    let dir: string;
+
+    const loadArgs: OnLoadArgs = {
+        path: "foundry:templates",
+        namespace: "foundry-templates",
+        suffix: "",
+        pluginData: undefined,
+    };
+
+    const getTemplatesPluginData = (
+        templatesFilter?: RegExp,
+        templatesDirs?: string[]
+    ) => ({
+        ...getPluginData({
+            packageType: "module",
+            packageName: "test",
+            ci: true,
+            ...(typeof templatesFilter === "undefined"
+                ? {}
+                : { templatesFilter }),
+            ...(typeof templatesDirs === "undefined" ? {} : { templatesDirs }),
+        }),
+        projectRoot: normalize(dir),
+        outdir: nativePath.join(dir, "dist"),
+    });
+
+    const getImports = (contents: string) =>
+        [...contents.matchAll(/^import \w+ from "(.*)";$/gm)].map(
+            ([, importPath]) => importPath
+        );
+
+    const writeFile = (...segments: string[]) => {
+        const filePath = nativePath.join(dir, ...segments);
+        fs.mkdirSync(nativePath.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, "");
+    };
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(
+            nativePath.join(os.tmpdir(), "foundry-templates-")
+        );
+
+        writeFile("templates", "sheet.hbs");
+        writeFile("templates", "parts", "header.html");
+        writeFile("templates", "notes.txt");
+        writeFile("templates", "node_modules", "template.hbs");
+        writeFile("templates", ".hidden", "template.hbs");
+        writeFile("docs", "readme.html");
+        writeFile("sheets", "actor.hbs");
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test("imports every template within the templates directory", async () => {
+        const { contents, watchDirs } = await onLoadTemplatesModule(
+            getTemplatesPluginData(),
+            loadArgs
+        );
+
+        expect(getImports(contents as string)).toEqual([
+            "./templates/parts/header.html",
+            "./templates/sheet.hbs",
+        ]);
+        expect(contents).toContain(
+            "export const templatePaths = [__template0, __template1];"
+        );
+        expect(watchDirs).toEqual([
+            normalize(nativePath.join(dir, "templates")),
+            normalize(nativePath.join(dir, "templates", "parts")),
+        ]);
+    });
+
+    test("imports the templates of every configured directory", async () => {
+        const { contents, watchDirs } = await onLoadTemplatesModule(
+            getTemplatesPluginData(undefined, ["sheets", "missing"]),
+            loadArgs
+        );
+
+        expect(getImports(contents as string)).toEqual(["./sheets/actor.hbs"]);
+
+        // A missing directory is picked up once it's created.
+        expect(watchDirs).toEqual([
+            normalize(nativePath.join(dir, "sheets")),
+            normalize(dir),
+        ]);
+    });
+
+    test("only imports the templates matching the filter", async () => {
+        const { contents } = await onLoadTemplatesModule(
+            getTemplatesPluginData(/\.hbs$/),
+            loadArgs
+        );
+
+        expect(getImports(contents as string)).toEqual([
+            "./templates/sheet.hbs",
+        ]);
+    });
+
+    test("registers each template as a partial named by getPartialName", async () => {
+        const { contents } = await onLoadTemplatesModule(
+            getTemplatesPluginData(),
+            loadArgs
+        );
+
+        const registerPartial = jest.fn();
+        const module = { exports: {} as Record<string, unknown> };
+
+        // The imports are replaced by the Foundry paths the templates are copied to.
+        vm.runInNewContext(
+            (contents as string)
+                .replace(
+                    /^import (\w+) from "\.\/(.*)";$/gm,
+                    'const $1 = "modules/test/$2";'
+                )
+                .replace(/^export (const|async function) (\w+)/gm, "$1 $2")
+                .concat(
+                    "\nmodule.exports = { templatePaths, preloadTemplates };"
+                ),
+            {
+                module,
+                loadTemplates: async (paths: string[]) =>
+                    paths.map((templatePath) => `compiled ${templatePath}`),
+                Handlebars: { registerPartial },
+            }
+        );
+
+        const preloadTemplates = module.exports.preloadTemplates as (
+            getPartialName?: (templatePath: string) => string
+        ) => Promise<string[]>;
+
+        expect(await preloadTemplates()).toEqual([
+            "compiled modules/test/templates/parts/header.html",
+            "compiled modules/test/templates/sheet.hbs",
+        ]);
+        expect(registerPartial).not.toHaveBeenCalled();
+
+        await preloadTemplates((templatePath) =>
+            nativePath.posix.basename(templatePath)
+        );
+        expect(registerPartial.mock.calls).toEqual([
+            [
+                "header.html",
+                "compiled modules/test/templates/parts/header.html",
+            ],
+            ["sheet.hbs", "compiled modules/test/templates/sheet.hbs"],
+        ]);
+    });
+});
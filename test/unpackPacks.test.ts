@@ -0,0 +1,121 @@
+import fs from "fs";
+import nativePath from "path";
+import os from "os";
+import { unpackPacks } from "../src/unpackPacks";
+
+describe("unpackPacks", () => {
+    let projectRoot: string;
+
+    const readFile = (...segments: string[]) =>
+        fs.readFileSync(nativePath.join(projectRoot, ...segments), "utf-8");
+
+    beforeEach(() => {
+        projectRoot = fs.mkdtempSync(
+            nativePath.join(os.tmpdir(), "foundry-unpack-")
+        );
+
+        fs.writeFileSync(
+            nativePath.join(projectRoot, "module.json"),
+            JSON.stringify({
+                packs: [
+                    { name: "items", path: "packs/items.db" },
+                    { name: "spells", path: "packs/spells" },
+                ],
+            })
+        );
+
+        fs.mkdirSync(nativePath.join(projectRoot, "packs"));
+        fs.writeFileSync(
+            nativePath.join(projectRoot, "packs", "items.db"),
+            [
+                `{"_id":"aaaaaaaaaaaaaaaa","name":"Sword","sort":1}`,
+                `{"_id":"bbbbbbbbbbbbbbbb","name":"Shield"}`,
+                `{"_id":"aaaaaaaaaaaaaaaa","name":"Long Sword","sort":2,"_stats":{},"effects":[{"_id":"e","sort":3}]}`,
+                `{"$$deleted":true,"_id":"bbbbbbbbbbbbbbbb"}`,
+                `{"$$indexCreated":{"fieldName":"name"}}`,
+                "",
+            ].join("\n")
+        );
+    });
+
+    afterEach(() => {
+        fs.rmSync(projectRoot, { recursive: true, force: true });
+    });
+
+    test("unpacks the latest version of every document", async () => {
+        const unpacked = await unpackPacks({
+            packageType: "module",
+            projectRoot,
+        });
+
+        expect(unpacked).toEqual([
+            {
+                packPath: "packs/items.db",
+                sourcePath: "packs/items",
+                files: ["packs/items/long-sword.aaaaaaaaaaaaaaaa.json"],
+            },
+        ]);
+        expect(
+            JSON.parse(
+                readFile("packs", "items", "long-sword.aaaaaaaaaaaaaaaa.json")
+            )
+        ).toEqual({
+            _id: "aaaaaaaaaaaaaaaa",
+            name: "Long Sword",
+            sort: 2,
+            _stats: {},
+            effects: [{ _id: "e", sort: 3 }],
+        });
+    });
+
+    test("strips volatile properties from embedded documents too", async () => {
+        await unpackPacks({
+            packageType: "module",
+            projectRoot,
+            format: "yaml",
+            stripStats: true,
+            stripSort: true,
+        });
+
+        expect(
+            readFile("packs", "items", "long-sword.aaaaaaaaaaaaaaaa.yaml")
+        ).toEqual(
+            "_id: aaaaaaaaaaaaaaaa\nname: Long Sword\neffects:\n  - _id: e\n"
+        );
+    });
+
+    test("unpacks a world's packs only outside of its data", async () => {
+        fs.renameSync(
+            nativePath.join(projectRoot, "module.json"),
+            nativePath.join(projectRoot, "world.json")
+        );
+
+        await expect(
+            unpackPacks({ packageType: "world", projectRoot })
+        ).rejects.toThrow("requires a sourceDir outside");
+        await expect(
+            unpackPacks({
+                packageType: "world",
+                projectRoot,
+                sourceDir: "./packs",
+            })
+        ).rejects.toThrow("requires a sourceDir outside");
+        expect(
+            fs.existsSync(nativePath.join(projectRoot, "packs", "items"))
+        ).toBe(false);
+
+        const unpacked = await unpackPacks({
+            packageType: "world",
+            projectRoot,
+            sourceDir: "src/packs",
+        });
+
+        expect(unpacked).toEqual([
+            {
+                packPath: "packs/items.db",
+                sourcePath: "src/packs/items",
+                files: ["src/packs/items/long-sword.aaaaaaaaaaaaaaaa.json"],
+            },
+        ]);
+    });
+});